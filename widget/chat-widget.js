@@ -16,14 +16,40 @@
   const config = window.DiscoFlareChat || {};
   const WORKER_URL = config.workerUrl || '';
   const TURNSTILE_SITE_KEY = config.turnstileSiteKey || '';
+  const SITE_KEY = config.siteKey || ''; // Site in a multi-site deployment
   const THEME = config.theme || {};
   const TEXT = config.text || {};
+  // Identity signed by the host site for logged-in users: { payload, signature }
+  const IDENTITY = config.identity && config.identity.payload && config.identity.signature
+    ? config.identity
+    : null;
+  // Departments offered in the pre-chat form: [{ key, label }], or one preset with `department`
+  const DEPARTMENTS = Array.isArray(config.departments) ? config.departments : [];
+  const ASK_DEPARTMENT = DEPARTMENTS.length > 0 && !config.department;
+  const RATING_STYLE = config.ratingStyle === 'thumbs' ? 'thumbs' : 'stars';
+  const TRANSCRIPT_FORMAT = ['txt', 'json', 'html'].includes(config.transcriptFormat)
+    ? config.transcriptFormat
+    : 'html';
   
   // Constants
   const STORAGE_KEY = 'discoflare_chat_session';
-  const SESSION_TIMEOUT = 60 * 60 * 1000; // 1 hour
+  const SESSION_TIMEOUT = 60 * 60 * 1000; // 1 hour, until the server sends the site's timeout
+  const OFFLINE_SESSION_TIMEOUT = 7 * 24 * 60 * 60 * 1000; // Offline messages wait this long for a reply
   const RECONNECT_INTERVALS = [2000, 4000, 8000, 16000];
+  const TYPING_THROTTLE = 3000; // Min gap between typing notifications
+  const TYPING_TIMEOUT = 10000; // Hide agent typing indicator after this
+  const ACK_TIMEOUT = 15000; // Mark a message as failed without an ack
+  const HISTORY_SCROLL_THRESHOLD = 40; // Load older messages this close to the top
   const MAX_MESSAGE_LENGTH = 2000;
+  const MAX_UPLOAD_SIZE = 8 * 1024 * 1024; // 8 MB
+  const ALLOWED_UPLOAD_TYPES = [
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+  ];
   
   // State
   let ws = null;
@@ -33,6 +59,23 @@
   let isInitialized = false;
   let isOpen = false;
   let turnstileToken = null;
+  let unreadCount = 0;
+  let queuedReplies = 0; // Replies the server counted in ready.unread, delivered right after it
+  let lastTypingSent = 0;
+  let typingTimer = null;
+  let lastUserMessageEl = null;
+  let messageActions = null;
+  let isEditing = false;
+  let needsReadReceipt = false;
+  let selectedScore = null;
+  let pendingRating = null; // Rating sent (or waiting to be sent) until the server confirms it
+  let sessionTimeout = null; // Session lifetime from the server's ready frame
+  let department = config.department || null;
+  let historyCursor = null; // Cursor for the next page of older messages
+  let isLoadingHistory = false;
+  let offlineMode = false; // Init form sends an offline message instead of starting a chat
+  let isOfflineTicket = false; // Session started as an offline message
+  const pendingMessages = new Map(); // clientId -> { messageEl, payload, timer }
   
   // DOM elements
   let chatButton = null;
@@ -42,9 +85,19 @@
   let chatForm = null;
   let chatInput = null;
   let sendButton = null;
+  let attachButton = null;
+  let fileInput = null;
   let closeButton = null;
+  let endChatButton = null;
+  let transcriptButton = null;
+  let ratingView = null;
   let initForm = null;
   let statusIndicator = null;
+  let availabilityLabel = null;
+  let headerName = null;
+  let agentAvatar = null;
+  let unreadBadge = null;
+  let typingIndicator = null;
   
   /**
    * Initialize widget
@@ -59,7 +112,7 @@
       return;
     }
     
-    if (!TURNSTILE_SITE_KEY) {
+    if (!TURNSTILE_SITE_KEY && !IDENTITY) {
       console.error('CloudflareChat: turnstileSiteKey is required');
       return;
     }
@@ -70,6 +123,14 @@
     // Try to restore session
     restoreSession();
     
+    // Reconnect in the background so queued replies show up as unread
+    if (sessionId) {
+      createChatWindow();
+    }
+    
+    // Send read receipts when the visitor comes back to the tab
+    document.addEventListener('visibilitychange', notifyRead);
+    
     // Auto-open if configured
     if (config.autoOpen) {
       setTimeout(() => openChat(), 1000);
@@ -102,6 +163,28 @@
         font-size: 24px;
       }
       
+      .cf-chat-badge {
+        position: absolute;
+        top: -4px;
+        right: -4px;
+        min-width: 20px;
+        height: 20px;
+        padding: 0 6px;
+        box-sizing: border-box;
+        border-radius: 10px;
+        background: #f04747;
+        color: white;
+        font-size: 12px;
+        font-weight: 600;
+        line-height: 20px;
+        text-align: center;
+        display: none;
+      }
+      
+      .cf-chat-badge.visible {
+        display: block;
+      }
+      
       .cf-chat-button:hover {
         transform: scale(1.1);
         box-shadow: 0 6px 16px rgba(0, 0, 0, 0.2);
@@ -149,6 +232,17 @@
         gap: 8px;
       }
       
+      .cf-chat-agent-avatar {
+        width: 24px;
+        height: 24px;
+        border-radius: 50%;
+        object-fit: cover;
+      }
+      
+      .cf-chat-agent-avatar[hidden] {
+        display: none;
+      }
+      
       .cf-chat-status {
         width: 8px;
         height: 8px;
@@ -164,6 +258,35 @@
         background: #f04747;
       }
       
+      .cf-chat-availability {
+        font-size: 12px;
+        opacity: 0.85;
+        margin-top: 2px;
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+      
+      .cf-chat-availability:empty {
+        display: none;
+      }
+      
+      .cf-chat-availability::before {
+        content: '';
+        width: 6px;
+        height: 6px;
+        border-radius: 50%;
+        background: #b9bbbe;
+      }
+      
+      .cf-chat-availability.online::before {
+        background: #43b581;
+      }
+      
+      .cf-chat-availability.away::before {
+        background: #faa61a;
+      }
+      
       .cf-chat-close {
         background: none;
         border: none;
@@ -184,6 +307,29 @@
         background: rgba(255, 255, 255, 0.1);
       }
       
+      .cf-chat-header-actions {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+      
+      .cf-chat-end,
+      .cf-chat-transcript {
+        background: rgba(255, 255, 255, 0.15);
+        border: none;
+        color: white;
+        font-size: 12px;
+        padding: 6px 10px;
+        border-radius: 4px;
+        cursor: pointer;
+        transition: background 0.2s;
+      }
+      
+      .cf-chat-end:hover,
+      .cf-chat-transcript:hover {
+        background: rgba(255, 255, 255, 0.25);
+      }
+      
       .cf-chat-messages {
         flex: 1;
         overflow-y: auto;
@@ -239,6 +385,99 @@
         opacity: 0.8;
       }
       
+      .cf-chat-attachment {
+        margin-top: 6px;
+      }
+      
+      .cf-chat-attachment img {
+        display: block;
+        max-width: 100%;
+        max-height: 240px;
+        border-radius: 8px;
+      }
+      
+      .cf-chat-file {
+        display: inline-flex;
+        gap: 6px;
+        padding: 6px 10px;
+        background: white;
+        border: 1px solid #e5e7eb;
+        border-radius: 6px;
+        color: #1f2937;
+        font-size: 13px;
+        text-decoration: none;
+      }
+      
+      .cf-chat-embed {
+        margin-top: 6px;
+        padding: 8px 10px;
+        border-left: 4px solid ${THEME.primaryColor || '#5865F2'};
+        background: white;
+        border-radius: 4px;
+        font-size: 13px;
+      }
+      
+      .cf-chat-embed-title {
+        font-weight: 600;
+        color: #1f2937;
+        text-decoration: none;
+      }
+      
+      .cf-chat-embed img {
+        display: block;
+        max-width: 100%;
+        margin-top: 6px;
+        border-radius: 4px;
+      }
+      
+      .cf-chat-message-actions {
+        margin-top: 4px;
+        text-align: right;
+        font-size: 11px;
+      }
+      
+      .cf-chat-message-actions button {
+        background: none;
+        border: none;
+        color: inherit;
+        opacity: 0.8;
+        cursor: pointer;
+        padding: 0 0 0 8px;
+        font-size: 11px;
+        text-decoration: underline;
+      }
+      
+      .cf-chat-message-status {
+        margin-top: 2px;
+        text-align: right;
+        font-size: 11px;
+        opacity: 0.7;
+      }
+      
+      .cf-chat-message-status.failed {
+        opacity: 1;
+        cursor: pointer;
+        text-decoration: underline;
+      }
+      
+      .cf-chat-edited {
+        font-size: 11px;
+        opacity: 0.7;
+        margin-left: 4px;
+      }
+      
+      .cf-chat-typing {
+        padding: 0 16px 8px;
+        font-size: 12px;
+        font-style: italic;
+        color: #6b7280;
+        display: none;
+      }
+      
+      .cf-chat-typing.visible {
+        display: block;
+      }
+      
       .cf-chat-init-form {
         padding: 24px;
         display: flex;
@@ -305,6 +544,58 @@
         cursor: not-allowed;
       }
       
+      .cf-chat-rating {
+        padding: 16px;
+        border-top: 1px solid #e5e7eb;
+        flex-direction: column;
+        gap: 10px;
+      }
+      
+      .cf-chat-rating-title {
+        margin: 0;
+        font-size: 14px;
+        font-weight: 600;
+        color: #1f2937;
+      }
+      
+      .cf-chat-rating-scores {
+        display: flex;
+        gap: 6px;
+      }
+      
+      .cf-chat-rating-score {
+        background: none;
+        border: 1px solid #e5e7eb;
+        border-radius: 6px;
+        font-size: 20px;
+        padding: 4px 10px;
+        color: #d1d5db;
+        cursor: pointer;
+      }
+      
+      .cf-chat-rating-score.selected {
+        border-color: ${THEME.primaryColor || '#5865F2'};
+        color: #f59e0b;
+      }
+      
+      .cf-chat-rating-actions {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+      
+      .cf-chat-rating-actions .cf-chat-button-primary {
+        flex: 1;
+      }
+      
+      .cf-chat-rating-skip {
+        background: none;
+        border: none;
+        color: #6b7280;
+        font-size: 13px;
+        cursor: pointer;
+      }
+      
       .cf-chat-form {
         padding: 16px;
         border-top: 1px solid #e5e7eb;
@@ -349,6 +640,34 @@
         cursor: not-allowed;
       }
       
+      .cf-chat-attach {
+        background: none;
+        border: none;
+        font-size: 18px;
+        cursor: pointer;
+        padding: 0 4px;
+        opacity: 0.7;
+      }
+      
+      .cf-chat-attach:hover {
+        opacity: 1;
+      }
+      
+      .cf-chat-progress {
+        height: 4px;
+        margin-top: 6px;
+        background: rgba(255, 255, 255, 0.3);
+        border-radius: 2px;
+        overflow: hidden;
+      }
+      
+      .cf-chat-progress-bar {
+        width: 0;
+        height: 100%;
+        background: white;
+        transition: width 0.2s;
+      }
+      
       @media (max-width: 768px) {
         .cf-chat-window {
           width: calc(100vw - 40px);
@@ -369,6 +688,11 @@
     chatButton.innerHTML = '💬';
     chatButton.setAttribute('aria-label', TEXT.buttonLabel || 'Open chat');
     chatButton.onclick = toggleChat;
+    
+    unreadBadge = document.createElement('span');
+    unreadBadge.className = 'cf-chat-badge';
+    chatButton.appendChild(unreadBadge);
+    
     document.body.appendChild(chatButton);
   }
   
@@ -385,28 +709,50 @@
     chatHeader = document.createElement('div');
     chatHeader.className = 'cf-chat-header';
     chatHeader.innerHTML = `
-      <div class="cf-chat-header-title">
-        <span class="cf-chat-status connecting"></span>
-        ${TEXT.headerTitle || 'Support Chat'}
+      <div>
+        <div class="cf-chat-header-title">
+          <span class="cf-chat-status connecting"></span>
+          <img class="cf-chat-agent-avatar" alt="" hidden>
+          <span class="cf-chat-header-name">${TEXT.headerTitle || 'Support Chat'}</span>
+        </div>
+        <div class="cf-chat-availability"></div>
+      </div>
+      <div class="cf-chat-header-actions">
+        <button class="cf-chat-transcript" aria-label="Download transcript" title="${TEXT.transcriptButton || 'Download transcript'}" style="display: none">⬇</button>
+        <button class="cf-chat-end" aria-label="End chat" style="display: none">${TEXT.endChatButton || 'End chat'}</button>
+        <button class="cf-chat-close" aria-label="Close chat">×</button>
       </div>
-      <button class="cf-chat-close" aria-label="Close chat">×</button>
     `;
     chatWindow.appendChild(chatHeader);
     
     statusIndicator = chatHeader.querySelector('.cf-chat-status');
+    availabilityLabel = chatHeader.querySelector('.cf-chat-availability');
+    headerName = chatHeader.querySelector('.cf-chat-header-name');
+    agentAvatar = chatHeader.querySelector('.cf-chat-agent-avatar');
     closeButton = chatHeader.querySelector('.cf-chat-close');
     closeButton.onclick = closeChat;
+    endChatButton = chatHeader.querySelector('.cf-chat-end');
+    endChatButton.onclick = endChat;
+    transcriptButton = chatHeader.querySelector('.cf-chat-transcript');
+    transcriptButton.onclick = downloadTranscript;
     
     // Messages container
     chatMessages = document.createElement('div');
     chatMessages.className = 'cf-chat-messages';
+    chatMessages.addEventListener('scroll', handleMessagesScroll);
     chatWindow.appendChild(chatMessages);
     
+    // Agent typing indicator
+    typingIndicator = document.createElement('div');
+    typingIndicator.className = 'cf-chat-typing';
+    chatWindow.appendChild(typingIndicator);
+    
     // Init form (shown first)
     initForm = document.createElement('div');
     initForm.className = 'cf-chat-init-form';
     initForm.innerHTML = `
       <h3>${TEXT.welcomeMessage || 'Welcome! How can we help?'}</h3>
+      ${IDENTITY ? '' : `
       <p>Please enter your details to start chatting with our support team.</p>
       <div class="cf-chat-input-group">
         <label class="cf-chat-label">Name</label>
@@ -416,7 +762,20 @@
         <label class="cf-chat-label">Email</label>
         <input type="email" class="cf-chat-text-input" id="cf-chat-email" required>
       </div>
-      <div id="cf-turnstile"></div>
+      `}
+      ${ASK_DEPARTMENT ? `
+      <div class="cf-chat-input-group">
+        <label class="cf-chat-label">${TEXT.departmentLabel || 'Department'}</label>
+        <select class="cf-chat-text-input" id="cf-chat-department">
+          ${DEPARTMENTS.map(d => `<option value="${d.key}">${d.label || d.key}</option>`).join('')}
+        </select>
+      </div>
+      ` : ''}
+      <div class="cf-chat-input-group cf-chat-offline-group" style="display: none">
+        <label class="cf-chat-label">${TEXT.offlineMessageLabel || 'Message'}</label>
+        <textarea class="cf-chat-text-input" id="cf-chat-offline-message" rows="4" maxlength="${MAX_MESSAGE_LENGTH}"></textarea>
+      </div>
+      ${IDENTITY ? '' : '<div id="cf-turnstile"></div>'}
       <button type="submit" class="cf-chat-button-primary">Start Chat</button>
     `;
     chatWindow.appendChild(initForm);
@@ -426,28 +785,74 @@
     chatForm.className = 'cf-chat-form';
     chatForm.style.display = 'none';
     chatForm.innerHTML = `
+      <input type="file" class="cf-chat-file-input" accept="${ALLOWED_UPLOAD_TYPES.join(',')}" hidden>
+      <button type="button" class="cf-chat-attach" aria-label="Attach file">📎</button>
       <textarea class="cf-chat-input" placeholder="${TEXT.placeholder || 'Type your message...'}" rows="1"></textarea>
       <button type="submit" class="cf-chat-send">${TEXT.sendButton || 'Send'}</button>
     `;
     chatWindow.appendChild(chatForm);
     
+    // Rating view (shown once the chat is closed)
+    ratingView = document.createElement('div');
+    ratingView.className = 'cf-chat-rating';
+    ratingView.style.display = 'none';
+    ratingView.innerHTML = `
+      <p class="cf-chat-rating-title">${TEXT.ratingTitle || 'How was your chat?'}</p>
+      <div class="cf-chat-rating-scores"></div>
+      <textarea class="cf-chat-input" placeholder="${TEXT.ratingCommentPlaceholder || 'Anything you want to add? (optional)'}" rows="2" maxlength="500"></textarea>
+      <div class="cf-chat-rating-actions">
+        <button type="button" class="cf-chat-button-primary" disabled>${TEXT.ratingSubmit || 'Send feedback'}</button>
+        <button type="button" class="cf-chat-rating-skip">${TEXT.ratingSkip || 'Skip'}</button>
+      </div>
+    `;
+    chatWindow.appendChild(ratingView);
+    createRatingScores();
+    ratingView.querySelector('.cf-chat-button-primary').onclick = submitRating;
+    ratingView.querySelector('.cf-chat-rating-skip').onclick = () => finishChat();
+    
     chatInput = chatForm.querySelector('.cf-chat-input');
     sendButton = chatForm.querySelector('.cf-chat-send');
+    attachButton = chatForm.querySelector('.cf-chat-attach');
+    fileInput = chatForm.querySelector('.cf-chat-file-input');
     
     // Event listeners
     initForm.querySelector('button').onclick = handleInitSubmit;
+    if (ASK_DEPARTMENT) {
+      initForm.querySelector('#cf-chat-department').onchange = (e) => loadAvailability(e.target.value);
+    }
     chatForm.onsubmit = handleMessageSubmit;
+    chatInput.addEventListener('keydown', handleInputKeydown);
+    attachButton.onclick = () => fileInput.click();
+    fileInput.onchange = handleFileSelect;
     
-    // Auto-resize textarea
+    // Auto-resize textarea and let the agent know we're typing
     chatInput.addEventListener('input', () => {
       chatInput.style.height = 'auto';
       chatInput.style.height = Math.min(chatInput.scrollHeight, 100) + 'px';
+      notifyTyping();
     });
     
     document.body.appendChild(chatWindow);
     
-    // Load Turnstile
-    loadTurnstile();
+    // Signed-in visitors don't need the form or the CAPTCHA
+    if (!IDENTITY) {
+      loadTurnstile();
+    }
+    
+    // Resume a stored session without asking for details again
+    if (sessionId) {
+      showChatView();
+      connectWebSocket('', '', null);
+    }
+    
+    // Show whether anyone is around before the visitor starts a chat
+    loadAvailability(ASK_DEPARTMENT ? DEPARTMENTS[0].key : department).then((availability) => {
+      // Signed-in visitors skip the form, unless it's needed to leave an offline message
+      if (!sessionId && IDENTITY && !ASK_DEPARTMENT && !isUnavailable(availability)) {
+        showChatView();
+        connectWebSocket('', '', null);
+      }
+    });
   }
   
   /**
@@ -487,10 +892,12 @@
     }
     chatWindow.classList.add('open');
     isOpen = true;
+    setUnreadCount(0);
+    notifyRead();
     
     // Focus input
     if (initForm.style.display !== 'none') {
-      initForm.querySelector('#cf-chat-name').focus();
+      initForm.querySelector(IDENTITY ? 'select, button' : '#cf-chat-name').focus();
     } else if (chatInput) {
       chatInput.focus();
     }
@@ -512,6 +919,23 @@
   async function handleInitSubmit(e) {
     e.preventDefault();
     
+    if (ASK_DEPARTMENT) {
+      department = document.getElementById('cf-chat-department').value;
+    }
+    
+    // Nobody is there to chat - leave a message instead
+    if (offlineMode) {
+      await submitOfflineMessage();
+      return;
+    }
+    
+    // Signed-in visitors are identified by the host site
+    if (IDENTITY) {
+      showChatView();
+      connectWebSocket('', '', null);
+      return;
+    }
+    
     const name = document.getElementById('cf-chat-name').value.trim();
     const email = document.getElementById('cf-chat-email').value.trim();
     
@@ -525,117 +949,704 @@
       return;
     }
     
-    // Hide init form, show chat
-    initForm.style.display = 'none';
-    chatMessages.style.display = 'flex';
-    chatForm.style.display = 'flex';
+    showChatView();
     
     // Connect WebSocket
     connectWebSocket(name, email, turnstileToken);
   }
   
   /**
-   * Handle message submit
+   * Send the offline form's message
+   * Agent replies are shown when the visitor comes back to the chat
    */
-  function handleMessageSubmit(e) {
-    e.preventDefault();
-    
-    const message = chatInput.value.trim();
-    if (!message) return;
+  async function submitOfflineMessage() {
+    const message = document.getElementById('cf-chat-offline-message').value.trim();
+    const name = IDENTITY ? '' : document.getElementById('cf-chat-name').value.trim();
+    const email = IDENTITY ? '' : document.getElementById('cf-chat-email').value.trim();
     
-    if (message.length > MAX_MESSAGE_LENGTH) {
-      addSystemMessage(`Message too long (max ${MAX_MESSAGE_LENGTH} characters)`);
+    if (!message || (!IDENTITY && (!name || !email))) {
+      alert(IDENTITY ? 'Please enter your message' : 'Please enter your name, email and message');
       return;
     }
     
-    sendMessage(message);
-    chatInput.value = '';
-    chatInput.style.height = 'auto';
-  }
-  
-  /**
-   * Connect to WebSocket
-   */
-  function connectWebSocket(name, email, token) {
-    if (ws && ws.readyState === WebSocket.OPEN) {
+    if (!IDENTITY && !turnstileToken) {
+      alert('Please complete the verification');
       return;
     }
     
-    setStatus('connecting');
-    
-    const wsUrl = WORKER_URL.replace(/^http/, 'ws') + '/ws';
-    ws = new WebSocket(wsUrl);
+    const submitButton = initForm.querySelector('.cf-chat-button-primary');
+    submitButton.disabled = true;
     
-    ws.onopen = () => {
-      console.log('WebSocket connected');
-      
-      // Send init message
-      ws.send(JSON.stringify({
-        type: 'init',
-        data: {
+    try {
+      const response = await fetch(WORKER_URL + '/offline?siteKey=' + encodeURIComponent(SITE_KEY), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
           name,
           email,
+          message,
           page: window.location.pathname,
-          turnstileToken: token,
-          sessionId: sessionId,
-        },
-      }));
-    };
-    
-    ws.onmessage = (event) => {
-      handleServerMessage(JSON.parse(event.data));
-    };
-    
-    ws.onclose = () => {
-      console.log('WebSocket disconnected');
-      setStatus('disconnected');
-      scheduleReconnect(name, email, token);
-    };
-    
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      setStatus('disconnected');
-    };
+          turnstileToken: turnstileToken || undefined,
+          identity: IDENTITY || undefined,
+          department: department || undefined,
+        }),
+      });
+      
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send your message. Please try again.');
+      }
+      
+      sessionId = data.sessionId;
+      isOfflineTicket = true;
+      saveSession();
+      
+      // Stay connected so a reply shows up if the visitor is still here
+      showChatView();
+      connectWebSocket('', '', null);
+    } catch (error) {
+      console.error('Offline message error:', error);
+      alert(error.message);
+      
+      // Turnstile tokens only work once
+      if (!IDENTITY && typeof turnstile !== 'undefined') {
+        turnstile.reset();
+        turnstileToken = null;
+      }
+    } finally {
+      submitButton.disabled = false;
+    }
   }
   
   /**
-   * Handle server messages
+   * Switch the init form between starting a chat and leaving an offline message
    */
-  function handleServerMessage(message) {
-    switch (message.type) {
-      case 'ready':
-        setStatus('connected');
-        sessionId = message.data.sessionId;
-        saveSession();
-        addSystemMessage(message.data.message);
-        break;
-      case 'message':
-        addAgentMessage(message.data.message, message.data.author);
-        break;
-      case 'error':
-        addSystemMessage('Error: ' + message.data.message);
-        break;
-      case 'pong':
-        // Heartbeat response
-        break;
+  function setOfflineMode(enabled) {
+    offlineMode = enabled;
+    
+    initForm.querySelector('h3').textContent = enabled
+      ? TEXT.offlineTitle || "We're away right now"
+      : TEXT.welcomeMessage || 'Welcome! How can we help?';
+    
+    const intro = initForm.querySelector('p');
+    if (intro) {
+      intro.textContent = enabled
+        ? "Leave a message and we'll reply here when we're back."
+        : 'Please enter your details to start chatting with our support team.';
     }
+    
+    initForm.querySelector('.cf-chat-offline-group').style.display = enabled ? '' : 'none';
+    initForm.querySelector('.cf-chat-button-primary').textContent = enabled
+      ? TEXT.offlineSubmit || 'Send message'
+      : 'Start Chat';
   }
   
   /**
-   * Send message
+   * Hide init form, show chat
    */
-  function sendMessage(message) {
+  function showChatView() {
+    initForm.style.display = 'none';
+    chatMessages.style.display = 'flex';
+    chatForm.style.display = 'flex';
+    endChatButton.style.display = '';
+    transcriptButton.style.display = '';
+  }
+  
+  /**
+   * Download a transcript of the current chat
+   */
+  async function downloadTranscript() {
+    if (!sessionId) return;
+    
+    try {
+      const response = await fetch(
+        WORKER_URL + '/transcript?sessionId=' + encodeURIComponent(sessionId) +
+          '&siteKey=' + encodeURIComponent(SITE_KEY) + '&format=' + TRANSCRIPT_FORMAT
+      );
+      if (!response.ok) {
+        throw new Error('HTTP ' + response.status);
+      }
+      
+      const blob = await response.blob();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'chat-transcript.' + TRANSCRIPT_FORMAT;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    } catch (error) {
+      console.error('Transcript download failed:', error);
+      addSystemMessage(TEXT.transcriptFailed || 'Could not download the transcript.');
+    }
+  }
+  
+  /**
+   * End the chat from the visitor side
+   */
+  function endChat() {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      addSystemMessage('Not connected. Please wait...');
+      return;
+    }
+    
+    if (!confirm(TEXT.endChatConfirm || 'End this chat?')) return;
+    
+    ws.send(JSON.stringify({ type: 'close', data: {} }));
+  }
+  
+  /**
+   * Create the score buttons of the rating view (stars or thumbs)
+   */
+  function createRatingScores() {
+    const container = ratingView.querySelector('.cf-chat-rating-scores');
+    const scores = RATING_STYLE === 'thumbs'
+      ? [{ score: 1, label: '👍', title: 'Good' }, { score: 0, label: '👎', title: 'Bad' }]
+      : [1, 2, 3, 4, 5].map(score => ({ score, label: '★', title: score + ' of 5' }));
+    
+    for (const { score, label, title } of scores) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'cf-chat-rating-score';
+      button.textContent = label;
+      button.setAttribute('aria-label', title);
+      button.dataset.score = String(score);
+      button.onclick = () => selectScore(score);
+      container.appendChild(button);
+    }
+  }
+  
+  /**
+   * Highlight the chosen score (stars fill up to the chosen one)
+   */
+  function selectScore(score) {
+    selectedScore = score;
+    
+    ratingView.querySelectorAll('.cf-chat-rating-score').forEach(button => {
+      const buttonScore = Number(button.dataset.score);
+      const selected = RATING_STYLE === 'thumbs' ? buttonScore === score : buttonScore <= score;
+      button.classList.toggle('selected', selected);
+    });
+    
+    ratingView.querySelector('.cf-chat-button-primary').disabled = false;
+  }
+  
+  /**
+   * Switch to the rating view after the chat was closed
+   */
+  function showRatingView() {
+    hideTyping();
+    if (isEditing) {
+      stopEditing();
+    }
+    setLastUserMessage(null);
+    
+    chatForm.style.display = 'none';
+    endChatButton.style.display = 'none';
+    
+    selectedScore = null;
+    ratingView.querySelectorAll('.cf-chat-rating-score').forEach(button => {
+      button.classList.remove('selected');
+    });
+    ratingView.querySelector('.cf-chat-input').value = '';
+    ratingView.querySelector('.cf-chat-button-primary').disabled = true;
+    ratingView.style.display = 'flex';
+    scrollToBottom();
+  }
+  
+  /**
+   * Send the visitor's rating
+   */
+  function submitRating() {
+    if (selectedScore === null || pendingRating) return;
+    
+    pendingRating = {
+      score: selectedScore,
+      scale: RATING_STYLE,
+      comment: ratingView.querySelector('.cf-chat-input').value.trim(),
+    };
+    ratingView.querySelector('.cf-chat-button-primary').disabled = true;
+    
+    if (!sendPendingRating()) {
+      addSystemMessage('Not connected. Your rating will be sent when the chat reconnects.');
+    }
+  }
+  
+  /**
+   * Send the rating waiting for confirmation, if connected
+   * The chat is only forgotten once the server confirms it with 'rated'
+   */
+  function sendPendingRating() {
+    if (!pendingRating || !ws || ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    ws.send(JSON.stringify({ type: 'rate', data: pendingRating }));
+    return true;
+  }
+  
+  /**
+   * Leave the rating view and forget the closed session
+   */
+  function finishChat(message) {
+    resetSession();
+    if (message) {
+      addSystemMessage(message);
+    }
+  }
+  
+  /**
+   * Handle message submit
+   */
+  function handleMessageSubmit(e) {
+    e.preventDefault();
+    
+    const message = chatInput.value.trim();
+    if (!message) return;
+    
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      addSystemMessage(`Message too long (max ${MAX_MESSAGE_LENGTH} characters)`);
+      return;
+    }
+    
+    if (isEditing) {
+      sendEdit(message);
+      stopEditing();
+      return;
+    }
+    
+    sendMessage(message);
+    chatInput.value = '';
+    chatInput.style.height = 'auto';
+  }
+  
+  /**
+   * Handle keyboard shortcuts in the message input
+   */
+  function handleInputKeydown(e) {
+    if (e.key === 'ArrowUp' && !chatInput.value && lastUserMessageEl) {
+      e.preventDefault();
+      startEditing();
+    } else if (e.key === 'Escape' && isEditing) {
+      e.preventDefault();
+      stopEditing();
+    }
+  }
+  
+  /**
+   * Put the last user message into the input for editing
+   */
+  function startEditing() {
+    if (!lastUserMessageEl) return;
+    
+    isEditing = true;
+    chatInput.value = lastUserMessageEl.querySelector('.cf-chat-message-text').textContent;
+    sendButton.textContent = TEXT.saveButton || 'Save';
+    chatInput.focus();
+  }
+  
+  /**
+   * Leave edit mode
+   */
+  function stopEditing() {
+    isEditing = false;
+    chatInput.value = '';
+    chatInput.style.height = 'auto';
+    sendButton.textContent = TEXT.sendButton || 'Send';
+  }
+  
+  /**
+   * Ask the server to edit the last user message
+   */
+  function sendEdit(message) {
     if (!ws || ws.readyState !== WebSocket.OPEN) {
       addSystemMessage('Not connected. Please wait...');
       return;
     }
     
     ws.send(JSON.stringify({
-      type: 'message',
+      type: 'edit',
       data: { message },
     }));
+  }
+  
+  /**
+   * Ask the server to retract the last user message
+   */
+  function sendDelete() {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      addSystemMessage('Not connected. Please wait...');
+      return;
+    }
+    
+    if (!confirm(TEXT.deleteConfirm || 'Delete this message?')) return;
+    
+    ws.send(JSON.stringify({ type: 'delete', data: {} }));
+  }
+  
+  /**
+   * Handle file selection
+   */
+  function handleFileSelect() {
+    const file = fileInput.files[0];
+    fileInput.value = '';
+    if (!file) return;
     
-    addUserMessage(message);
+    if (!ALLOWED_UPLOAD_TYPES.includes(file.type)) {
+      addSystemMessage('File type not allowed');
+      return;
+    }
+    
+    if (file.size > MAX_UPLOAD_SIZE) {
+      addSystemMessage(`File too large (max ${MAX_UPLOAD_SIZE / (1024 * 1024)} MB)`);
+      return;
+    }
+    
+    if (!sessionId || !ws || ws.readyState !== WebSocket.OPEN) {
+      addSystemMessage('Not connected. Please wait...');
+      return;
+    }
+    
+    uploadFile(file);
+  }
+  
+  /**
+   * Upload a file, then ask the server to post it to the conversation
+   */
+  function uploadFile(file) {
+    const messageEl = addUserFileMessage(file);
+    const progressEl = messageEl.querySelector('.cf-chat-progress');
+    const progressBar = messageEl.querySelector('.cf-chat-progress-bar');
+    
+    const fail = (reason) => {
+      progressEl.remove();
+      addSystemMessage('Upload failed: ' + reason);
+    };
+    
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', WORKER_URL + '/upload?sessionId=' + encodeURIComponent(sessionId) +
+      '&siteKey=' + encodeURIComponent(SITE_KEY) + '&filename=' + encodeURIComponent(file.name));
+    xhr.setRequestHeader('Content-Type', file.type);
+    
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        progressBar.style.width = Math.round((event.loaded / event.total) * 100) + '%';
+      }
+    };
+    
+    xhr.onload = () => {
+      let response = {};
+      try {
+        response = JSON.parse(xhr.responseText);
+      } catch (error) {
+        // Non-JSON error page
+      }
+      
+      if (xhr.status !== 200) {
+        fail(response.error || 'Server error');
+        return;
+      }
+      
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        fail('Not connected');
+        return;
+      }
+      
+      const clientId = generateClientId();
+      progressEl.remove();
+      sendTracked(messageEl, {
+        type: 'file',
+        data: { uploadId: response.uploadId, clientId },
+      });
+    };
+    
+    xhr.onerror = () => fail('Network error');
+    
+    xhr.send(file);
+  }
+  
+  /**
+   * Connect to WebSocket
+   */
+  function connectWebSocket(name, email, token) {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      return;
+    }
+    
+    setStatus('connecting');
+    
+    // Include the session ID so we are routed back to our own session
+    let wsUrl = WORKER_URL.replace(/^http/, 'ws') + '/ws?siteKey=' + encodeURIComponent(SITE_KEY);
+    if (sessionId) {
+      wsUrl += '&sessionId=' + encodeURIComponent(sessionId);
+    }
+    ws = new WebSocket(wsUrl);
+    
+    ws.onopen = () => {
+      console.log('WebSocket connected');
+      
+      // Send init message
+      ws.send(JSON.stringify({
+        type: 'init',
+        data: {
+          name,
+          email,
+          page: window.location.pathname,
+          turnstileToken: token,
+          sessionId: sessionId,
+          identity: IDENTITY || undefined,
+          department: department || undefined,
+        },
+      }));
+    };
+    
+    ws.onmessage = (event) => {
+      handleServerMessage(JSON.parse(event.data));
+    };
+    
+    ws.onclose = () => {
+      console.log('WebSocket disconnected');
+      setStatus('disconnected');
+      scheduleReconnect(name, email, token);
+    };
+    
+    ws.onerror = (error) => {
+      console.error('WebSocket error:', error);
+      setStatus('disconnected');
+    };
+  }
+  
+  /**
+   * Handle server messages
+   */
+  function handleServerMessage(message) {
+    switch (message.type) {
+      case 'ready':
+        setStatus('connected');
+        reconnectAttempt = 0;
+        sessionId = message.data.sessionId;
+        isOfflineTicket = !!message.data.offline;
+        sessionTimeout = message.data.sessionTimeout || null;
+        saveSession();
+        // History is sent again on restore, so start from an empty list
+        if (message.data.restored) {
+          chatMessages.innerHTML = '';
+          setLastUserMessage(null);
+          historyCursor = null;
+          isLoadingHistory = false;
+        }
+        addSystemMessage(message.data.message);
+        if (message.data.availability) {
+          renderAvailability(message.data.availability);
+        }
+        // A rating given while disconnected goes out now
+        sendPendingRating();
+        // Replies that arrived while the visitor was away are counted here, not one by one
+        queuedReplies = message.data.unread || 0;
+        if (!isOpen) {
+          setUnreadCount(unreadCount + queuedReplies);
+        }
+        break;
+      case 'availability':
+        // Agents came online, went away, or business hours opened or closed
+        renderAvailability(message.data);
+        addSystemMessage(describeAvailability(message.data));
+        break;
+      case 'agent_joined':
+        // An agent claimed the chat or it was handed over
+        renderAgent(message.data);
+        if (!message.data.restored) {
+          addSystemMessage(message.data.name + ' ' + (message.data.handedOver
+            ? (TEXT.agentHandedOver || 'took over the chat')
+            : (TEXT.agentJoined || 'joined the chat')));
+        }
+        break;
+      case 'message':
+        hideTyping();
+        addAgentMessage(message.data);
+        if (queuedReplies > 0) {
+          queuedReplies--;
+        } else if (!isOpen) {
+          setUnreadCount(unreadCount + 1);
+        }
+        needsReadReceipt = true;
+        notifyRead();
+        // Activity keeps the session alive on the server, so keep it here too
+        saveSession();
+        break;
+      case 'history':
+        renderHistory(message.data);
+        break;
+      case 'ack':
+        handleAck(message.data);
+        saveSession();
+        break;
+      case 'message_edited':
+        applyMessageEdit(message.data);
+        break;
+      case 'message_deleted':
+        applyMessageDelete(message.data);
+        break;
+      case 'error':
+        if (message.data.code === 'SESSION_EXPIRED') {
+          resetSession();
+        }
+        addSystemMessage('Error: ' + message.data.message);
+        break;
+      case 'typing':
+        showTyping(message.data.author);
+        break;
+      case 'closed':
+        // The visitor or an agent ended the chat - ask for a rating
+        addSystemMessage(message.data.message);
+        // Keep the survey as filled in while a rating is on its way
+        if (!pendingRating) {
+          showRatingView();
+        }
+        break;
+      case 'rated':
+        // The server has the rating (possibly from another tab)
+        finishChat(TEXT.ratingThanks || 'Thanks for your feedback!');
+        break;
+      case 'pong':
+        // Heartbeat response
+        break;
+    }
+  }
+  
+  /**
+   * Tell the server the visitor is typing (throttled)
+   */
+  function notifyTyping() {
+    if (!chatInput.value.trim()) return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    
+    const now = Date.now();
+    if (now - lastTypingSent < TYPING_THROTTLE) return;
+    lastTypingSent = now;
+    
+    ws.send(JSON.stringify({ type: 'typing', data: {} }));
+  }
+  
+  /**
+   * Show the agent typing indicator
+   */
+  function showTyping(author) {
+    typingIndicator.textContent = (author || 'Agent') + ' is typing…';
+    typingIndicator.classList.add('visible');
+    
+    clearTimeout(typingTimer);
+    typingTimer = setTimeout(hideTyping, TYPING_TIMEOUT);
+  }
+  
+  /**
+   * Hide the agent typing indicator
+   */
+  function hideTyping() {
+    clearTimeout(typingTimer);
+    typingTimer = null;
+    typingIndicator.classList.remove('visible');
+  }
+  
+  /**
+   * Send message
+   */
+  function sendMessage(message) {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      addSystemMessage('Not connected. Please wait...');
+      return;
+    }
+    
+    const clientId = generateClientId();
+    const messageEl = addUserMessage(message);
+    sendTracked(messageEl, {
+      type: 'message',
+      data: { message, clientId },
+    });
+  }
+  
+  /**
+   * Send a message frame and wait for the server to acknowledge it
+   */
+  function sendTracked(messageEl, payload) {
+    const clientId = payload.data.clientId;
+    const pending = pendingMessages.get(clientId) || { messageEl, payload, timer: null };
+    pendingMessages.set(clientId, pending);
+    
+    clearTimeout(pending.timer);
+    
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      setMessageStatus(pending, 'failed');
+      return;
+    }
+    
+    ws.send(JSON.stringify(payload));
+    setMessageStatus(pending, 'sent');
+    
+    pending.timer = setTimeout(() => setMessageStatus(pending, 'failed'), ACK_TIMEOUT);
+  }
+  
+  /**
+   * Handle a delivery acknowledgement from the server
+   */
+  function handleAck(data) {
+    const pending = pendingMessages.get(data.clientId);
+    if (!pending) return;
+    
+    clearTimeout(pending.timer);
+    
+    if (data.status === 'delivered') {
+      pendingMessages.delete(data.clientId);
+      if (data.id) pending.messageEl.dataset.id = data.id;
+      setMessageStatus(pending, 'delivered');
+    } else {
+      setMessageStatus(pending, 'failed');
+    }
+  }
+  
+  /**
+   * Show the delivery status under a user message
+   */
+  function setMessageStatus(pending, status) {
+    let statusEl = pending.messageEl.querySelector('.cf-chat-message-status');
+    if (!statusEl) {
+      statusEl = document.createElement('div');
+      statusEl.className = 'cf-chat-message-status';
+      pending.messageEl.appendChild(statusEl);
+    }
+    
+    const labels = {
+      sent: TEXT.statusSent || 'Sent',
+      delivered: TEXT.statusDelivered || 'Delivered',
+      failed: TEXT.statusFailed || 'Failed - tap to retry',
+    };
+    
+    statusEl.textContent = labels[status];
+    statusEl.classList.toggle('failed', status === 'failed');
+    statusEl.onclick = status === 'failed'
+      ? () => sendTracked(pending.messageEl, pending.payload)
+      : null;
+  }
+  
+  /**
+   * Tell the server the visitor has seen the latest replies
+   */
+  function notifyRead() {
+    if (!needsReadReceipt || !isOpen) return;
+    if (document.visibilityState !== 'visible') return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    
+    needsReadReceipt = false;
+    ws.send(JSON.stringify({ type: 'read', data: {} }));
+  }
+  
+  /**
+   * Generate a client-side message ID
+   */
+  function generateClientId() {
+    if (window.crypto && crypto.randomUUID) {
+      return crypto.randomUUID();
+    }
+    return Date.now().toString(36) + Math.random().toString(36).slice(2);
   }
   
   /**
@@ -644,31 +1655,335 @@
   function addUserMessage(text) {
     const messageEl = document.createElement('div');
     messageEl.className = 'cf-chat-message user';
-    messageEl.textContent = text;
+    
+    const textEl = document.createElement('div');
+    textEl.className = 'cf-chat-message-text';
+    textEl.textContent = text;
+    messageEl.appendChild(textEl);
+    
     chatMessages.appendChild(messageEl);
+    setLastUserMessage(messageEl);
     scrollToBottom();
+    return messageEl;
+  }
+  
+  /**
+   * Track the last user message and attach edit/delete actions to it
+   */
+  function setLastUserMessage(messageEl) {
+    if (messageActions) {
+      messageActions.remove();
+    }
+    
+    lastUserMessageEl = messageEl;
+    if (!messageEl) return;
+    
+    if (!messageActions) {
+      messageActions = document.createElement('div');
+      messageActions.className = 'cf-chat-message-actions';
+      messageActions.innerHTML = `
+        <button type="button" class="cf-chat-edit">${TEXT.editButton || 'Edit'}</button>
+        <button type="button" class="cf-chat-delete">${TEXT.deleteButton || 'Delete'}</button>
+      `;
+      messageActions.querySelector('.cf-chat-edit').onclick = startEditing;
+      messageActions.querySelector('.cf-chat-delete').onclick = sendDelete;
+    }
+    
+    messageEl.appendChild(messageActions);
+  }
+  
+  /**
+   * Find the element for an edited or deleted message
+   */
+  function findMessageElement(data) {
+    const byId = data.id
+      ? chatMessages.querySelector('[data-id="' + CSS.escape(data.id) + '"]')
+      : null;
+    return byId || (data.fromVisitor ? lastUserMessageEl : null);
+  }
+  
+  /**
+   * Apply an edit from the server
+   */
+  function applyMessageEdit(data) {
+    const messageEl = findMessageElement(data);
+    if (!messageEl) return;
+    
+    messageEl.dataset.id = data.id;
+    
+    if (messageEl.classList.contains('user')) {
+      const textEl = messageEl.querySelector('.cf-chat-message-text');
+      textEl.textContent = data.message;
+      textEl.appendChild(createEditedMarker());
+    } else {
+      renderAgentMessage(messageEl, {
+        ...data,
+        author: messageEl.dataset.author,
+        edited: true,
+      });
+    }
+  }
+  
+  /**
+   * Apply a deletion from the server
+   */
+  function applyMessageDelete(data) {
+    const messageEl = findMessageElement(data);
+    if (!messageEl) return;
+    
+    if (messageEl === lastUserMessageEl) {
+      if (isEditing) stopEditing();
+      setLastUserMessage(null);
+    }
+    messageEl.remove();
+  }
+  
+  /**
+   * Create the "(edited)" marker
+   */
+  function createEditedMarker() {
+    const markerEl = document.createElement('span');
+    markerEl.className = 'cf-chat-edited';
+    markerEl.textContent = TEXT.editedLabel || '(edited)';
+    return markerEl;
+  }
+  
+  /**
+   * Add user file message with a thumbnail and upload progress
+   */
+  function addUserFileMessage(file) {
+    const messageEl = document.createElement('div');
+    messageEl.className = 'cf-chat-message user';
+    
+    if (file.type.startsWith('image/')) {
+      const img = document.createElement('img');
+      img.className = 'cf-chat-attachment';
+      img.src = URL.createObjectURL(file);
+      img.alt = file.name;
+      img.style.maxWidth = '100%';
+      img.style.maxHeight = '160px';
+      img.style.borderRadius = '8px';
+      img.onload = scrollToBottom;
+      messageEl.appendChild(img);
+    } else {
+      const nameEl = document.createElement('div');
+      nameEl.textContent = '📎 ' + file.name + ' (' + formatFileSize(file.size) + ')';
+      messageEl.appendChild(nameEl);
+    }
+    
+    const progressEl = document.createElement('div');
+    progressEl.className = 'cf-chat-progress';
+    progressEl.innerHTML = '<div class="cf-chat-progress-bar"></div>';
+    messageEl.appendChild(progressEl);
+    
+    chatMessages.appendChild(messageEl);
+    setLastUserMessage(null); // Only text messages can be edited
+    scrollToBottom();
+    return messageEl;
+  }
+  
+  /**
+   * Request older messages when the visitor scrolls to the top
+   */
+  function handleMessagesScroll() {
+    if (!historyCursor || isLoadingHistory) return;
+    if (chatMessages.scrollTop > HISTORY_SCROLL_THRESHOLD) return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    
+    isLoadingHistory = true;
+    ws.send(JSON.stringify({
+      type: 'history',
+      data: { before: historyCursor },
+    }));
+  }
+  
+  /**
+   * Render a page of history - the latest page on restore, older pages above
+   */
+  function renderHistory(data) {
+    const fragment = document.createDocumentFragment();
+    (data.messages || []).forEach((msg) => {
+      fragment.appendChild(createHistoryMessage(msg));
+    });
+    
+    if (isLoadingHistory) {
+      // Keep the visible messages in place while older ones are added above
+      const previousHeight = chatMessages.scrollHeight;
+      chatMessages.insertBefore(fragment, chatMessages.firstChild);
+      chatMessages.scrollTop += chatMessages.scrollHeight - previousHeight;
+    } else {
+      chatMessages.appendChild(fragment);
+      scrollToBottom();
+    }
+    
+    historyCursor = data.cursor || null;
+    isLoadingHistory = false;
+  }
+  
+  /**
+   * Create the element for a message from history (visitor or agent)
+   */
+  function createHistoryMessage(data) {
+    if (data.direction !== 'visitor') {
+      return createAgentMessage(data);
+    }
+    
+    const messageEl = document.createElement('div');
+    messageEl.className = 'cf-chat-message user';
+    if (data.id) messageEl.dataset.id = data.id;
+    
+    if (data.message) {
+      const textEl = document.createElement('div');
+      textEl.className = 'cf-chat-message-text';
+      textEl.textContent = data.message;
+      if (data.edited) textEl.appendChild(createEditedMarker());
+      messageEl.appendChild(textEl);
+    }
+    
+    (data.attachments || []).forEach((attachment) => {
+      const attachmentEl = createAttachmentElement(attachment);
+      if (attachmentEl) messageEl.appendChild(attachmentEl);
+    });
+    
+    return messageEl;
   }
   
   /**
    * Add agent message to chat
    */
-  function addAgentMessage(text, author) {
+  function addAgentMessage(data) {
+    chatMessages.appendChild(createAgentMessage(data));
+    scrollToBottom();
+  }
+  
+  /**
+   * Create the element for an agent message
+   */
+  function createAgentMessage(data) {
     const messageEl = document.createElement('div');
     messageEl.className = 'cf-chat-message agent';
+    if (data.id) messageEl.dataset.id = data.id;
+    if (data.author) messageEl.dataset.author = data.author;
     
-    if (author) {
+    renderAgentMessage(messageEl, data);
+    return messageEl;
+  }
+  
+  /**
+   * Render the contents of an agent message
+   */
+  function renderAgentMessage(messageEl, data) {
+    messageEl.innerHTML = '';
+    
+    if (data.author) {
       const authorEl = document.createElement('div');
       authorEl.className = 'cf-chat-message-author';
-      authorEl.textContent = author;
+      authorEl.textContent = data.author;
       messageEl.appendChild(authorEl);
     }
     
-    const textEl = document.createElement('div');
-    textEl.textContent = text;
-    messageEl.appendChild(textEl);
+    if (data.message) {
+      const textEl = document.createElement('div');
+      textEl.textContent = data.message;
+      if (data.edited) textEl.appendChild(createEditedMarker());
+      messageEl.appendChild(textEl);
+    }
     
-    chatMessages.appendChild(messageEl);
-    scrollToBottom();
+    (data.attachments || []).forEach((attachment) => {
+      const attachmentEl = createAttachmentElement(attachment);
+      if (attachmentEl) messageEl.appendChild(attachmentEl);
+    });
+    
+    (data.embeds || []).forEach((embed) => {
+      messageEl.appendChild(createEmbedElement(embed));
+    });
+  }
+  
+  /**
+   * Render an attachment as an inline image or a file link
+   */
+  function createAttachmentElement(attachment) {
+    if (!isSafeUrl(attachment.url)) return null;
+    
+    const wrapper = document.createElement('div');
+    wrapper.className = 'cf-chat-attachment';
+    
+    const link = document.createElement('a');
+    link.href = attachment.url;
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer';
+    
+    if ((attachment.contentType || '').startsWith('image/')) {
+      const img = document.createElement('img');
+      img.src = attachment.url;
+      img.alt = attachment.filename;
+      if (attachment.width && attachment.height) {
+        img.width = attachment.width;
+        img.height = attachment.height;
+        img.style.height = 'auto';
+      }
+      img.onload = scrollToBottom;
+      link.appendChild(img);
+    } else {
+      link.className = 'cf-chat-file';
+      link.textContent = '📎 ' + attachment.filename + ' (' + formatFileSize(attachment.size) + ')';
+    }
+    
+    wrapper.appendChild(link);
+    return wrapper;
+  }
+  
+  /**
+   * Render a simple embed card
+   */
+  function createEmbedElement(embed) {
+    const embedEl = document.createElement('div');
+    embedEl.className = 'cf-chat-embed';
+    
+    if (embed.title) {
+      const titleEl = document.createElement(isSafeUrl(embed.url) ? 'a' : 'div');
+      titleEl.className = 'cf-chat-embed-title';
+      titleEl.textContent = embed.title;
+      if (titleEl.tagName === 'A') {
+        titleEl.href = embed.url;
+        titleEl.target = '_blank';
+        titleEl.rel = 'noopener noreferrer';
+      }
+      embedEl.appendChild(titleEl);
+    }
+    
+    if (embed.description) {
+      const descriptionEl = document.createElement('div');
+      descriptionEl.textContent = embed.description;
+      embedEl.appendChild(descriptionEl);
+    }
+    
+    const imageUrl = embed.imageUrl || embed.thumbnailUrl;
+    if (isSafeUrl(imageUrl)) {
+      const img = document.createElement('img');
+      img.src = imageUrl;
+      img.alt = embed.title || '';
+      img.onload = scrollToBottom;
+      embedEl.appendChild(img);
+    }
+    
+    return embedEl;
+  }
+  
+  /**
+   * Only allow http(s) URLs in rendered links and images
+   */
+  function isSafeUrl(url) {
+    return typeof url === 'string' && /^https?:\/\//i.test(url);
+  }
+  
+  /**
+   * Format a byte count for display
+   */
+  function formatFileSize(bytes) {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
   }
   
   /**
@@ -689,6 +2004,103 @@
     chatMessages.scrollTop = chatMessages.scrollHeight;
   }
   
+  /**
+   * Update the unread badge on the chat button
+   */
+  function setUnreadCount(count) {
+    unreadCount = count;
+    unreadBadge.textContent = count > 9 ? '9+' : String(count);
+    unreadBadge.classList.toggle('visible', count > 0);
+  }
+  
+  /**
+   * Fetch agent availability for the site (and department)
+   */
+  async function loadAvailability(departmentKey) {
+    try {
+      let url = WORKER_URL + '/availability?siteKey=' + encodeURIComponent(SITE_KEY);
+      if (departmentKey) {
+        url += '&department=' + encodeURIComponent(departmentKey);
+      }
+      
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error('Availability check failed: ' + response.status);
+      }
+      
+      // A chat may have started since - its own frames are newer
+      const availability = await response.json();
+      if (!ws) {
+        renderAvailability(availability);
+      }
+      return availability;
+    } catch (error) {
+      console.error('Availability error:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Show agent availability in the header
+   */
+  function renderAvailability(data) {
+    if (!availabilityLabel || !data) return;
+    
+    availabilityLabel.className = 'cf-chat-availability ' + data.status;
+    availabilityLabel.textContent = describeAvailability(data);
+    
+    // Offer the offline form until a chat has started
+    if (initForm.style.display !== 'none') {
+      setOfflineMode(isUnavailable(data));
+    }
+  }
+  
+  /**
+   * Show the agent who owns the chat in the header, or the default title without one
+   */
+  function renderAgent(agent) {
+    headerName.textContent = agent ? agent.name : (TEXT.headerTitle || 'Support Chat');
+    
+    if (agent && isSafeUrl(agent.avatarUrl)) {
+      agentAvatar.src = agent.avatarUrl;
+      agentAvatar.hidden = false;
+    } else {
+      agentAvatar.removeAttribute('src');
+      agentAvatar.hidden = true;
+    }
+  }
+  
+  /**
+   * No agent can answer now: outside business hours, or nobody in the support role is online
+   */
+  function isUnavailable(data) {
+    return !!data && (data.status === 'offline' || data.status === 'away');
+  }
+  
+  /**
+   * Describe availability and the expected response time
+   */
+  function describeAvailability(data) {
+    if (data.status === 'offline') {
+      if (!data.nextOpenAt) {
+        return TEXT.availabilityOffline || 'Offline';
+      }
+      const opensAt = new Date(data.nextOpenAt).toLocaleString([], {
+        weekday: 'short',
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+      return (TEXT.availabilityOffline || 'Offline') + ' · back ' + opensAt;
+    }
+    
+    const label = data.status === 'away'
+      ? TEXT.availabilityAway || 'Away'
+      : TEXT.availabilityOnline || 'Online';
+    return data.responseTime
+      ? label + ' · ' + (TEXT.responseTime || 'typically replies in') + ' ' + data.responseTime
+      : label;
+  }
+  
   /**
    * Set connection status
    */
@@ -725,12 +2137,44 @@
       localStorage.setItem(STORAGE_KEY, JSON.stringify({
         sessionId,
         timestamp: Date.now(),
+        offline: isOfflineTicket,
+        timeout: sessionTimeout || undefined,
       }));
     } catch (error) {
       console.error('Failed to save session:', error);
     }
   }
   
+  /**
+   * Forget the current session and show the init form again
+   */
+  function resetSession() {
+    sessionId = null;
+    isOfflineTicket = false;
+    pendingRating = null;
+    sessionTimeout = null;
+    localStorage.removeItem(STORAGE_KEY);
+    renderAgent(null);
+    
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    
+    if (ws) {
+      ws.onclose = null;
+      ws.close();
+      ws = null;
+    }
+    
+    setStatus('disconnected');
+    chatForm.style.display = 'none';
+    ratingView.style.display = 'none';
+    endChatButton.style.display = 'none';
+    transcriptButton.style.display = 'none';
+    initForm.style.display = 'flex';
+  }
+  
   /**
    * Restore session from localStorage
    */
@@ -741,13 +2185,15 @@
       
       const data = JSON.parse(stored);
       
-      // Check if session is still valid
-      if (Date.now() - data.timestamp > SESSION_TIMEOUT) {
+      // Check if session is still valid (sessions saved before the first ready use the defaults)
+      const timeout = data.timeout || (data.offline ? OFFLINE_SESSION_TIMEOUT : SESSION_TIMEOUT);
+      if (Date.now() - data.timestamp > timeout) {
         localStorage.removeItem(STORAGE_KEY);
         return;
       }
       
       sessionId = data.sessionId;
+      sessionTimeout = data.timeout || null;
     } catch (error) {
       console.error('Failed to restore session:', error);
       localStorage.removeItem(STORAGE_KEY);
@@ -2,11 +2,69 @@ import {
   Env,
   GatewayOpcode,
   GatewayIntent,
+  GatewayCloseCode,
   GatewayPayload,
+  GatewayResumeState,
   DiscordMessage,
+  DiscordMessageMember,
+  DiscordMessageDelete,
+  DiscordTypingStart,
+  DiscordThread,
+  DiscordThreadListSync,
+  DiscordGuildCreate,
+  DiscordGuildMember,
+  DiscordGuildMembersChunk,
+  DiscordGuildMemberRemove,
+  DiscordPresenceUpdate,
+  DiscordAttachment,
+  DiscordEmbed,
   RelayMessage,
+  RelayAttachment,
+  RelayEmbed,
+  OutboxEntry,
+  DeadLetter,
+  AgentPresence,
 } from './types';
 
+// Outbox for relay deliveries - retried with exponential backoff until
+// the main worker accepts them, then moved to the dead-letter list
+const OUTBOX_PREFIX = 'outbox:';
+const DEAD_LETTER_PREFIX = 'dead-letter:';
+const OUTBOX_MAX_ATTEMPTS = 10;
+const OUTBOX_BASE_DELAY = 2 * 1000;
+const OUTBOX_MAX_DELAY = 10 * 60 * 1000;
+const DEAD_LETTER_LIMIT = 100;
+
+const DEFAULT_GATEWAY_URL = 'wss://gateway.discord.gg';
+const CDN_URL = 'https://cdn.discordapp.com';
+const GATEWAY_QUERY = '/?v=10&encoding=json';
+const RESUME_STATE_KEY = 'gateway-resume';
+const RESUME_STATE_INTERVAL = 30 * 1000; // Saving the sequence number less often only replays a few events
+const SUPPORT_THREAD_PREFIX = 'support-thread:';
+const GUILDS_KEY = 'guilds';
+
+// Presence changes are batched into one report to the main worker
+const PRESENCE_REPORT_DELAY = 5 * 1000;
+
+// Watchdog alarm interval - reconnects even when no request wakes the object
+const WATCHDOG_INTERVAL = 60 * 1000;
+
+// Close codes that won't succeed on retry without a configuration change
+const FATAL_CLOSE_CODES: number[] = [
+  GatewayCloseCode.AUTHENTICATION_FAILED,
+  GatewayCloseCode.INVALID_SHARD,
+  GatewayCloseCode.SHARDING_REQUIRED,
+  GatewayCloseCode.INVALID_API_VERSION,
+  GatewayCloseCode.INVALID_INTENTS,
+  GatewayCloseCode.DISALLOWED_INTENTS,
+];
+
+// Close codes after which the session can't be resumed
+const SESSION_ENDING_CLOSE_CODES: number[] = [
+  GatewayCloseCode.INVALID_SEQ,
+  GatewayCloseCode.SESSION_TIMED_OUT,
+];
+
 /**
  * Durable Object for maintaining Discord Gateway connection
  * Runs as a singleton to maintain persistent WebSocket connection to Discord
@@ -16,10 +74,31 @@ export class DiscordGateway {
   private env: Env;
   private ws: WebSocket | null = null;
   private heartbeatInterval: number | null = null;
+  private heartbeatTimeout: number | null = null;
+  private heartbeatIntervalMs: number | null = null;
+  private heartbeatAcked: boolean = true;
+  private lastHeartbeatAck: number | null = null;
   private sessionId: string | null = null;
   private sequenceNumber: number | null = null;
+  private resumeGatewayUrl: string | null = null;
   private reconnectAttempts: number = 0;
+  private reconnectTimeout: number | null = null;
   private isReconnecting: boolean = false;
+  private fatalCloseCode: number | null = null;
+  private supportThreads: Set<string> = new Set();
+  private outboxSequence: number = 0;
+  private isFlushing: boolean = false;
+  private flushRequested: boolean = false;
+  private guildIds: Set<string> = new Set();
+  private agentRoles: Map<string, string[]> = new Map(); // User ID -> tracked roles
+  private agentStatuses: Map<string, string> = new Map(); // User ID -> presence status
+  private membersLoaded: boolean = false; // Every guild's member list has arrived at least once
+  private pendingMemberGuilds: Set<string> = new Set(); // Guilds with member chunks still to come
+  private presenceTimeout: number | null = null;
+  private presenceDirty: boolean = false;
+  private lastPresenceReport: string | null = null;
+  private savedSequenceNumber: number | null = null;
+  private resumeStateSavedAt: number = 0;
   
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
@@ -27,10 +106,56 @@ export class DiscordGateway {
     
     // Start connection on initialization
     this.state.blockConcurrencyWhile(async () => {
+      // Resume the previous Gateway session after an isolate restart
+      const resumeState = await this.state.storage.get<GatewayResumeState>(RESUME_STATE_KEY);
+      if (resumeState) {
+        this.sessionId = resumeState.sessionId;
+        this.sequenceNumber = resumeState.sequenceNumber;
+        this.savedSequenceNumber = resumeState.sequenceNumber;
+        this.resumeGatewayUrl = resumeState.resumeGatewayUrl;
+      }
+      
+      // Threads of the support channel - messages anywhere else are dropped
+      const threads = await this.state.storage.list({ prefix: SUPPORT_THREAD_PREFIX });
+      for (const key of threads.keys()) {
+        this.supportThreads.add(key.slice(SUPPORT_THREAD_PREFIX.length));
+      }
+      
+      // Guilds whose members are requested again after resuming in a new isolate
+      for (const guildId of await this.state.storage.get<string[]>(GUILDS_KEY) || []) {
+        this.guildIds.add(guildId);
+      }
+      
       await this.connect();
+      
+      // Pick up deliveries left over from before a restart
+      const pending = await this.state.storage.list({ prefix: OUTBOX_PREFIX, limit: 1 });
+      if (pending.size > 0) {
+        await this.scheduleAlarm(Date.now());
+      }
+      await this.scheduleAlarm(Date.now() + WATCHDOG_INTERVAL);
     });
   }
   
+  /**
+   * Alarm handler - checks the Gateway connection and retries outbox
+   * deliveries that are due
+   */
+  async alarm(): Promise<void> {
+    this.checkConnection();
+    await this.flushOutbox();
+    
+    // Retry a presence report the main worker didn't accept
+    if (this.presenceDirty && this.presenceTimeout === null) {
+      await this.reportPresence();
+    }
+    
+    if (this.sequenceNumber !== this.savedSequenceNumber) {
+      await this.saveResumeState();
+    }
+    await this.scheduleAlarm(Date.now() + WATCHDOG_INTERVAL);
+  }
+  
   /**
    * Handle HTTP requests (for status checks)
    */
@@ -38,12 +163,42 @@ export class DiscordGateway {
     const url = new URL(request.url);
     
     if (url.pathname === '/status') {
+      const outbox = await this.state.storage.list({ prefix: OUTBOX_PREFIX });
+      const deadLetters = await this.state.storage.list({ prefix: DEAD_LETTER_PREFIX });
+      
       return new Response(
         JSON.stringify({
           connected: this.ws?.readyState === WebSocket.OPEN,
           sessionId: this.sessionId,
           sequenceNumber: this.sequenceNumber,
           reconnectAttempts: this.reconnectAttempts,
+          supportThreads: this.supportThreads.size,
+          agents: this.agentRoles.size,
+          lastHeartbeatAck: this.lastHeartbeatAck,
+          fatalCloseCode: this.fatalCloseCode,
+          outbox: outbox.size,
+          deadLetters: deadLetters.size,
+        }),
+        {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+    
+    // Dead letters hold message content, so they need the relay secret
+    if (url.pathname === '/dead-letters') {
+      const authHeader = request.headers.get('Authorization');
+      if (authHeader !== `Bearer ${this.env.BOT_RELAY_SECRET}`) {
+        return new Response('Unauthorized', { status: 401 });
+      }
+      
+      const deadLetters = await this.state.storage.list<DeadLetter>({ prefix: DEAD_LETTER_PREFIX });
+      
+      return new Response(
+        JSON.stringify({
+          count: deadLetters.size,
+          deadLetters: [...deadLetters.values()],
         }),
         {
           status: 200,
@@ -62,29 +217,36 @@ export class DiscordGateway {
     if (this.isReconnecting) return;
     
     try {
-      const gatewayUrl = 'wss://gateway.discord.gg/?v=10&encoding=json';
-      this.ws = new WebSocket(gatewayUrl);
+      // Resumes must go to the URL Discord handed out in READY
+      const baseUrl = this.canResume() && this.resumeGatewayUrl
+        ? this.resumeGatewayUrl
+        : DEFAULT_GATEWAY_URL;
+      const ws = new WebSocket(baseUrl.replace(/\/+$/, '') + GATEWAY_QUERY);
+      this.ws = ws;
       
       // CRITICAL: Accept the WebSocket in the Durable Object to keep it alive
-      this.state.acceptWebSocket(this.ws);
+      this.state.acceptWebSocket(ws);
       
-      this.ws.addEventListener('open', () => {
+      // Events of a socket that has since been replaced are ignored
+      ws.addEventListener('open', () => {
         console.log('WebSocket OPEN - Connected to Discord Gateway');
-        this.reconnectAttempts = 0;
       });
       
-      this.ws.addEventListener('message', (event: MessageEvent) => {
+      ws.addEventListener('message', (event: MessageEvent) => {
+        if (this.ws !== ws) return;
         console.log('WebSocket MESSAGE received, length:', (event.data as string).length);
         this.handleMessage(event.data as string);
       });
       
-      this.ws.addEventListener('close', (event: CloseEvent) => {
+      ws.addEventListener('close', (event: CloseEvent) => {
+        if (this.ws !== ws) return;
         console.log('Disconnected from Discord Gateway:', event.code, event.reason);
+        this.ws = null;
         this.cleanup();
-        this.scheduleReconnect();
+        this.handleClose(event.code);
       });
       
-      this.ws.addEventListener('error', () => {
+      ws.addEventListener('error', () => {
         console.error('Discord Gateway WebSocket error');
       });
     } catch (error) {
@@ -93,6 +255,24 @@ export class DiscordGateway {
     }
   }
   
+  /**
+   * Handle a closed Gateway connection according to its close code
+   */
+  private async handleClose(code: number): Promise<void> {
+    if (FATAL_CLOSE_CODES.includes(code)) {
+      // Retrying would only hit the same error - wait for a redeploy
+      console.error(`Discord Gateway closed with fatal code ${code}, not reconnecting`);
+      this.fatalCloseCode = code;
+      return;
+    }
+    
+    if (SESSION_ENDING_CLOSE_CODES.includes(code)) {
+      await this.resetSession();
+    }
+    
+    this.scheduleReconnect();
+  }
+  
   /**
    * Handle incoming Gateway messages
    */
@@ -100,9 +280,12 @@ export class DiscordGateway {
     try {
       const payload: GatewayPayload = JSON.parse(data);
       
-      // Update sequence number
+      // Update sequence number (kept in memory, saved now and then)
       if (payload.s !== null && payload.s !== undefined) {
         this.sequenceNumber = payload.s;
+        if (Date.now() - this.resumeStateSavedAt >= RESUME_STATE_INTERVAL) {
+          await this.saveResumeState();
+        }
       }
       
       switch (payload.op) {
@@ -112,18 +295,26 @@ export class DiscordGateway {
         case GatewayOpcode.DISPATCH:
           await this.handleDispatch(payload);
           break;
+        case GatewayOpcode.HEARTBEAT:
+          // Discord asks for an immediate heartbeat
+          this.sendHeartbeat();
+          break;
         case GatewayOpcode.HEARTBEAT_ACK:
-          // Heartbeat acknowledged
+          this.heartbeatAcked = true;
+          this.lastHeartbeatAck = Date.now();
           break;
         case GatewayOpcode.RECONNECT:
           console.log('Discord requested reconnect');
           this.reconnect();
           break;
         case GatewayOpcode.INVALID_SESSION:
-          console.log('Invalid session, reconnecting...');
-          this.sessionId = null;
-          this.sequenceNumber = null;
-          setTimeout(() => this.reconnect(), 5000);
+          // d tells whether the session can still be resumed
+          console.log('Invalid session, reconnecting...', { resumable: payload.d });
+          if (!payload.d) {
+            await this.resetSession();
+          }
+          // Discord asks for a random 1-5 second wait before identifying again
+          this.scheduleReconnect(1000 + Math.random() * 4000);
           break;
       }
     } catch (error) {
@@ -141,7 +332,7 @@ export class DiscordGateway {
     this.startHeartbeat(heartbeatInterval);
     
     // Identify or resume
-    if (this.sessionId && this.sequenceNumber !== null) {
+    if (this.canResume()) {
       await this.resume();
     } else {
       await this.identify();
@@ -159,7 +350,12 @@ export class DiscordGateway {
         intents:
           GatewayIntent.GUILDS |
           GatewayIntent.GUILD_MESSAGES |
-          GatewayIntent.MESSAGE_CONTENT,
+          GatewayIntent.GUILD_MESSAGE_TYPING |
+          GatewayIntent.MESSAGE_CONTENT |
+          // Privileged intents, only needed to report agent presence
+          (this.getSupportRoleIds().length > 0
+            ? GatewayIntent.GUILD_MEMBERS | GatewayIntent.GUILD_PRESENCES
+            : 0),
         properties: {
           os: 'linux',
           browser: 'cloudflare-workers',
@@ -196,14 +392,59 @@ export class DiscordGateway {
     switch (payload.t) {
       case 'READY':
         this.sessionId = payload.d.session_id;
+        this.resumeGatewayUrl = payload.d.resume_gateway_url || null;
+        this.reconnectAttempts = 0;
+        await this.saveResumeState();
         console.log('Bot ready, session ID:', this.sessionId);
         break;
       case 'RESUMED':
+        this.reconnectAttempts = 0;
+        await this.saveResumeState();
         console.log('Session resumed');
+        // A new isolate resumes without the member list
+        if (!this.membersLoaded) {
+          this.guildIds.forEach(guildId => this.requestGuildMembers(guildId));
+        }
+        break;
+      case 'GUILD_CREATE':
+        await this.trackThreads((payload.d as DiscordGuildCreate).threads || []);
+        await this.trackGuild((payload.d as DiscordGuildCreate).id);
+        break;
+      case 'GUILD_MEMBERS_CHUNK':
+        this.handleMembersChunk(payload.d);
+        break;
+      case 'GUILD_MEMBER_ADD':
+      case 'GUILD_MEMBER_UPDATE':
+        this.updateAgent(payload.d as DiscordGuildMember);
+        break;
+      case 'GUILD_MEMBER_REMOVE':
+        this.removeAgent((payload.d as DiscordGuildMemberRemove).user.id);
+        break;
+      case 'PRESENCE_UPDATE':
+        this.updateAgentStatus(payload.d as DiscordPresenceUpdate);
+        break;
+      case 'THREAD_CREATE':
+      case 'THREAD_UPDATE':
+        await this.trackThreads([payload.d as DiscordThread]);
+        break;
+      case 'THREAD_LIST_SYNC':
+        await this.trackThreads((payload.d as DiscordThreadListSync).threads);
+        break;
+      case 'THREAD_DELETE':
+        await this.untrackThread((payload.d as DiscordThread).id);
         break;
       case 'MESSAGE_CREATE':
         await this.handleMessageCreate(payload.d);
         break;
+      case 'MESSAGE_UPDATE':
+        await this.handleMessageUpdate(payload.d);
+        break;
+      case 'MESSAGE_DELETE':
+        await this.handleMessageDelete(payload.d);
+        break;
+      case 'TYPING_START':
+        await this.handleTypingStart(payload.d);
+        break;
       default:
         console.log('Unhandled event type:', payload.t);
     }
@@ -213,11 +454,17 @@ export class DiscordGateway {
    * Handle MESSAGE_CREATE event
    */
   private async handleMessageCreate(message: DiscordMessage): Promise<void> {
+    // Only support threads are relayed
+    if (!this.supportThreads.has(message.channel_id)) {
+      return;
+    }
+    
     console.log('MESSAGE_CREATE received:', {
       channelId: message.channel_id,
       author: message.author.username,
       isBot: message.author.bot,
       content: message.content?.substring(0, 50),
+      attachments: message.attachments?.length || 0,
     });
     
     // Ignore bot messages
@@ -226,22 +473,453 @@ export class DiscordGateway {
       return;
     }
     
+    // Ignore webhook messages (visitor messages echoed back from Discord)
+    if (message.webhook_id) {
+      console.log('Ignoring webhook message');
+      return;
+    }
+    
+    const attachments = (message.attachments || []).map(a => this.toRelayAttachment(a));
+    const embeds = (message.embeds || [])
+      .map(e => this.toRelayEmbed(e))
+      .filter((e): e is RelayEmbed => e !== null);
+    
     // Ignore empty messages
-    if (!message.content) {
+    if (!message.content && attachments.length === 0 && embeds.length === 0) {
       console.log('Ignoring empty message');
       return;
     }
     
     // Forward to main worker
+    await this.enqueueRelay({
+      type: 'message',
+      threadId: message.channel_id,
+      messageId: message.id,
+      message: message.content || '',
+      author: this.getDisplayName(message.author, message.member),
+      authorId: message.author.id,
+      authorAvatar: this.getAvatarUrl(message.author, message.member, message.guild_id),
+      timestamp: Date.now(),
+      attachments,
+      embeds,
+    });
+  }
+  
+  /**
+   * Handle MESSAGE_UPDATE event (edits and late embed unfurls)
+   * Update payloads may be partial, so missing fields are left unchanged
+   */
+  private async handleMessageUpdate(message: Partial<DiscordMessage> & { id: string; channel_id: string }): Promise<void> {
+    if (!this.supportThreads.has(message.channel_id)) {
+      return;
+    }
+    
+    // Ignore bot and webhook messages (including edits of visitor messages)
+    if (!message.author || message.author.bot || message.webhook_id) {
+      return;
+    }
+    
+    if (message.content === undefined && message.attachments === undefined && message.embeds === undefined) {
+      return;
+    }
+    
+    await this.enqueueRelay({
+      type: 'edit',
+      threadId: message.channel_id,
+      messageId: message.id,
+      message: message.content ?? '',
+      author: this.getDisplayName(message.author, message.member),
+      timestamp: Date.now(),
+      attachments: message.attachments?.map(a => this.toRelayAttachment(a)),
+      embeds: message.embeds
+        ?.map(e => this.toRelayEmbed(e))
+        .filter((e): e is RelayEmbed => e !== null),
+    });
+  }
+  
+  /**
+   * Handle MESSAGE_DELETE event
+   */
+  private async handleMessageDelete(deleted: DiscordMessageDelete): Promise<void> {
+    if (!this.supportThreads.has(deleted.channel_id)) {
+      return;
+    }
+    
+    await this.enqueueRelay({
+      type: 'delete',
+      threadId: deleted.channel_id,
+      messageId: deleted.id,
+      message: '',
+      author: '',
+      timestamp: Date.now(),
+    });
+  }
+  
+  /**
+   * Handle TYPING_START event
+   */
+  private async handleTypingStart(typing: DiscordTypingStart): Promise<void> {
+    if (!this.supportThreads.has(typing.channel_id)) {
+      return;
+    }
+    
+    // Ignore typing outside guilds and from bots
+    const user = typing.member?.user;
+    if (!user || user.bot) {
+      return;
+    }
+    
+    // Typing is transient - deliver once and don't retry
+    await this.relay({
+      type: 'typing',
+      threadId: typing.channel_id,
+      message: '',
+      author: this.getDisplayName(user, typing.member),
+      timestamp: typing.timestamp * 1000,
+    });
+  }
+  
+  /**
+   * Remember threads created in the support channel
+   */
+  private async trackThreads(threads: DiscordThread[]): Promise<void> {
+    const supportThreads = threads.filter(thread =>
+      !!thread.parent_id && this.getSupportChannelIds().includes(thread.parent_id)
+      && !this.supportThreads.has(thread.id)
+    );
+    
+    for (const thread of supportThreads) {
+      this.supportThreads.add(thread.id);
+      await this.state.storage.put(SUPPORT_THREAD_PREFIX + thread.id, true);
+    }
+  }
+  
+  /**
+   * Get the support channels (one per site when the main worker serves several)
+   */
+  private getSupportChannelIds(): string[] {
+    return this.env.DISCORD_SUPPORT_CHANNEL_ID.split(',').map(id => id.trim());
+  }
+  
+  /**
+   * Forget a deleted thread
+   */
+  private async untrackThread(threadId: string): Promise<void> {
+    if (this.supportThreads.delete(threadId)) {
+      await this.state.storage.delete(SUPPORT_THREAD_PREFIX + threadId);
+    }
+  }
+  
+  /**
+   * Remember a guild and load its members when agent presence is reported
+   */
+  private async trackGuild(guildId: string): Promise<void> {
+    if (this.getSupportRoleIds().length === 0) {
+      return;
+    }
+    
+    if (!this.guildIds.has(guildId)) {
+      this.guildIds.add(guildId);
+      await this.state.storage.put(GUILDS_KEY, [...this.guildIds]);
+    }
+    
+    this.requestGuildMembers(guildId);
+  }
+  
+  /**
+   * Ask for all members of a guild with their presences (sent as GUILD_MEMBERS_CHUNK)
+   */
+  private requestGuildMembers(guildId: string): void {
+    if (this.getSupportRoleIds().length === 0) {
+      return;
+    }
+    
+    this.pendingMemberGuilds.add(guildId);
+    this.send({
+      op: GatewayOpcode.REQUEST_GUILD_MEMBERS,
+      d: {
+        guild_id: guildId,
+        query: '',
+        limit: 0,
+        presences: true,
+      },
+    });
+  }
+  
+  /**
+   * Handle a GUILD_MEMBERS_CHUNK event
+   * Presence is reported once the last chunk of every requested guild is in
+   */
+  private handleMembersChunk(chunk: DiscordGuildMembersChunk): void {
+    for (const member of chunk.members) {
+      this.updateAgent(member);
+    }
+    for (const presence of chunk.presences || []) {
+      this.updateAgentStatus(presence);
+    }
+    
+    if (chunk.chunk_index === chunk.chunk_count - 1) {
+      this.pendingMemberGuilds.delete(chunk.guild_id);
+      if (this.pendingMemberGuilds.size === 0) {
+        this.membersLoaded = true;
+        this.schedulePresenceReport();
+      }
+    }
+  }
+  
+  /**
+   * Track a member's support roles, forgetting members without any
+   */
+  private updateAgent(member: DiscordGuildMember): void {
+    const supportRoleIds = this.getSupportRoleIds();
+    const roles = (member.roles || []).filter(role => supportRoleIds.includes(role));
+    
+    if (roles.length > 0 && !member.user.bot) {
+      this.agentRoles.set(member.user.id, roles);
+    } else if (!this.agentRoles.delete(member.user.id)) {
+      return;
+    }
+    this.schedulePresenceReport();
+  }
+  
+  /**
+   * Forget a member who left the guild
+   */
+  private removeAgent(userId: string): void {
+    this.agentStatuses.delete(userId);
+    if (this.agentRoles.delete(userId)) {
+      this.schedulePresenceReport();
+    }
+  }
+  
+  /**
+   * Handle a PRESENCE_UPDATE event
+   * Presences of everyone are kept, since a member may get a support role later
+   */
+  private updateAgentStatus(presence: DiscordPresenceUpdate): void {
+    if (presence.status === 'offline') {
+      this.agentStatuses.delete(presence.user.id);
+    } else {
+      this.agentStatuses.set(presence.user.id, presence.status);
+    }
+    
+    if (this.agentRoles.has(presence.user.id)) {
+      this.schedulePresenceReport();
+    }
+  }
+  
+  /**
+   * Report presence after a short delay, batching changes that come together
+   */
+  private schedulePresenceReport(): void {
+    // Partial member lists would report too few agents
+    if (!this.membersLoaded || this.pendingMemberGuilds.size > 0 || this.presenceTimeout !== null) {
+      return;
+    }
+    
+    this.presenceTimeout = setTimeout(() => {
+      this.presenceTimeout = null;
+      this.reportPresence();
+    }, PRESENCE_REPORT_DELAY) as any;
+  }
+  
+  /**
+   * Send the number of online and away agents per support role to the main worker
+   * Unchanged counts aren't sent again; failures are retried by the alarm
+   */
+  private async reportPresence(): Promise<void> {
+    const presence: AgentPresence = { roles: {} };
+    for (const roleId of this.getSupportRoleIds()) {
+      presence.roles[roleId] = { online: 0, away: 0 };
+    }
+    
+    for (const [userId, roles] of this.agentRoles) {
+      const status = this.agentStatuses.get(userId);
+      for (const roleId of roles) {
+        if (status === 'online') {
+          presence.roles[roleId].online++;
+        } else if (status === 'idle' || status === 'dnd') {
+          presence.roles[roleId].away++;
+        }
+      }
+    }
+    
+    const report = JSON.stringify(presence);
+    if (report === this.lastPresenceReport) {
+      this.presenceDirty = false;
+      return;
+    }
+    
+    try {
+      const response = await fetch(`${this.env.MAIN_WORKER_URL}/presence`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.env.BOT_RELAY_SECRET}`,
+        },
+        body: report,
+      });
+      
+      if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`);
+      }
+      
+      this.lastPresenceReport = report;
+      this.presenceDirty = false;
+      console.log('Agent presence reported:', report);
+    } catch (error) {
+      console.error('Error reporting agent presence:', error);
+      this.presenceDirty = true;
+    }
+  }
+  
+  /**
+   * Get the roles whose members' presence is reported (none disables presence)
+   */
+  private getSupportRoleIds(): string[] {
+    return (this.env.SUPPORT_ROLE_ID || '').split(',').map(id => id.trim()).filter(Boolean);
+  }
+  
+  /**
+   * Store a relay message in the outbox and try to deliver it
+   */
+  private async enqueueRelay(relayMessage: RelayMessage): Promise<void> {
+    const now = Date.now();
+    
+    // Keys sort by enqueue order, which keeps each thread's events in order
+    this.outboxSequence++;
+    const key = `${OUTBOX_PREFIX}${now.toString().padStart(15, '0')}:${this.outboxSequence.toString().padStart(6, '0')}`;
+    
+    const entry: OutboxEntry = {
+      relay: relayMessage,
+      attempts: 0,
+      enqueuedAt: now,
+      nextAttemptAt: now,
+    };
+    await this.state.storage.put(key, entry);
+    
+    await this.flushOutbox();
+  }
+  
+  /**
+   * Deliver due outbox entries
+   * Only one flush runs at a time; requests during a flush trigger another pass
+   */
+  private async flushOutbox(): Promise<void> {
+    if (this.isFlushing) {
+      this.flushRequested = true;
+      return;
+    }
+    
+    this.isFlushing = true;
     try {
-      const relayMessage: RelayMessage = {
-        threadId: message.channel_id,
-        message: message.content,
-        author: message.author.username,
-        timestamp: Date.now(),
-      };
+      do {
+        this.flushRequested = false;
+        await this.deliverOutbox();
+      } while (this.flushRequested);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+  
+  /**
+   * Make one pass over the outbox
+   * A thread whose oldest entry can't be delivered yet is skipped entirely so
+   * its later events don't overtake it
+   */
+  private async deliverOutbox(): Promise<void> {
+    const entries = await this.state.storage.list<OutboxEntry>({ prefix: OUTBOX_PREFIX });
+    const blockedThreads = new Set<string>();
+    let nextAttemptAt: number | null = null;
+    
+    for (const [key, entry] of entries) {
+      const { threadId } = entry.relay;
+      if (blockedThreads.has(threadId)) {
+        continue;
+      }
+      
+      if (entry.nextAttemptAt > Date.now()) {
+        blockedThreads.add(threadId);
+        nextAttemptAt = Math.min(nextAttemptAt ?? entry.nextAttemptAt, entry.nextAttemptAt);
+        continue;
+      }
+      
+      const result = await this.relay(entry.relay);
+      if (result.delivered) {
+        await this.state.storage.delete(key);
+        continue;
+      }
+      
+      entry.attempts++;
+      entry.lastError = result.error;
+      
+      if (!result.retryable || entry.attempts >= OUTBOX_MAX_ATTEMPTS) {
+        await this.moveToDeadLetters(key, entry);
+        continue;
+      }
+      
+      const delay = Math.min(OUTBOX_BASE_DELAY * 2 ** (entry.attempts - 1), OUTBOX_MAX_DELAY);
+      entry.nextAttemptAt = Date.now() + delay;
+      await this.state.storage.put(key, entry);
       
-      console.log('Relaying message to main worker:', {
+      console.log(`Relay to thread ${threadId} failed, retrying in ${delay}ms (attempt ${entry.attempts})`);
+      blockedThreads.add(threadId);
+      nextAttemptAt = Math.min(nextAttemptAt ?? entry.nextAttemptAt, entry.nextAttemptAt);
+    }
+    
+    if (nextAttemptAt !== null) {
+      await this.scheduleAlarm(nextAttemptAt);
+    }
+  }
+  
+  /**
+   * Move an outbox entry to the dead-letter list, dropping the oldest
+   * dead letters beyond the limit
+   */
+  private async moveToDeadLetters(key: string, entry: OutboxEntry): Promise<void> {
+    console.error('Giving up on relay message:', {
+      type: entry.relay.type,
+      threadId: entry.relay.threadId,
+      attempts: entry.attempts,
+      error: entry.lastError,
+    });
+    
+    const deadLetter: DeadLetter = {
+      relay: entry.relay,
+      attempts: entry.attempts,
+      enqueuedAt: entry.enqueuedAt,
+      failedAt: Date.now(),
+      error: entry.lastError || 'Unknown error',
+    };
+    await this.state.storage.put(DEAD_LETTER_PREFIX + key.slice(OUTBOX_PREFIX.length), deadLetter);
+    await this.state.storage.delete(key);
+    
+    const deadLetters = await this.state.storage.list({ prefix: DEAD_LETTER_PREFIX });
+    const excess = [...deadLetters.keys()].slice(0, Math.max(0, deadLetters.size - DEAD_LETTER_LIMIT));
+    if (excess.length > 0) {
+      await this.state.storage.delete(excess);
+    }
+  }
+  
+  /**
+   * Schedule the alarm unless one is already due sooner
+   */
+  private async scheduleAlarm(time: number): Promise<void> {
+    const current = await this.state.storage.getAlarm();
+    if (current === null || current > time) {
+      await this.state.storage.setAlarm(time);
+    }
+  }
+  
+  /**
+   * Forward a relay message to the main worker
+   * Messages for threads without a session (404 unknown thread, 410 session
+   * gone) are dropped as delivered, other client errors can't succeed on retry
+   */
+  private async relay(relayMessage: RelayMessage): Promise<{ delivered: boolean; retryable: boolean; error?: string }> {
+    try {
+      console.log('Relaying to main worker:', {
+        type: relayMessage.type,
         threadId: relayMessage.threadId,
         mainWorkerUrl: this.env.MAIN_WORKER_URL,
       });
@@ -255,31 +933,184 @@ export class DiscordGateway {
         body: JSON.stringify(relayMessage),
       });
       
-      if (!response.ok) {
-        console.error('Failed to relay message:', response.status, await response.text());
-      } else {
+      if (response.status === 404 || response.status === 410) {
+        console.log('No chat session for thread, dropping:', relayMessage.threadId, response.status);
+        return { delivered: true, retryable: false };
+      }
+      
+      if (response.ok) {
         console.log('Message relayed successfully');
+        return { delivered: true, retryable: false };
       }
+      
+      const error = `${response.status} ${await response.text()}`;
+      console.error('Failed to relay message:', error);
+      
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      return { delivered: false, retryable, error };
     } catch (error) {
       console.error('Error relaying message to main worker:', error);
+      return { delivered: false, retryable: true, error: String(error) };
+    }
+  }
+  
+  /**
+   * Name shown to visitors: server nickname, then display name, then username
+   */
+  private getDisplayName(
+    user: { username: string; global_name?: string | null },
+    member?: DiscordMessageMember
+  ): string {
+    return member?.nick || user.global_name || user.username;
+  }
+  
+  /**
+   * Avatar shown to visitors: server avatar, then user avatar, then the default avatar
+   */
+  private getAvatarUrl(
+    user: { id: string; avatar?: string | null },
+    member?: DiscordMessageMember,
+    guildId?: string
+  ): string {
+    if (member?.avatar && guildId) {
+      return `${CDN_URL}/guilds/${guildId}/users/${user.id}/avatars/${member.avatar}.png`;
+    }
+    if (user.avatar) {
+      return `${CDN_URL}/avatars/${user.id}/${user.avatar}.png`;
+    }
+    return `${CDN_URL}/embed/avatars/${Number((BigInt(user.id) >> BigInt(22)) % BigInt(6))}.png`;
+  }
+  
+  /**
+   * Convert a Discord attachment to the relay format
+   */
+  private toRelayAttachment(attachment: DiscordAttachment): RelayAttachment {
+    return {
+      url: attachment.url,
+      filename: attachment.filename,
+      contentType: attachment.content_type,
+      size: attachment.size,
+      width: attachment.width ?? undefined,
+      height: attachment.height ?? undefined,
+    };
+  }
+  
+  /**
+   * Convert a Discord embed to the relay format
+   * Returns null for embeds with nothing the widget can show
+   */
+  private toRelayEmbed(embed: DiscordEmbed): RelayEmbed | null {
+    if (!embed.title && !embed.description && !embed.image && !embed.thumbnail) {
+      return null;
     }
+    
+    return {
+      title: embed.title,
+      description: embed.description,
+      url: embed.url,
+      imageUrl: embed.image?.url,
+      thumbnailUrl: embed.thumbnail?.url,
+    };
   }
   
   /**
    * Start heartbeat interval
+   * The first heartbeat is jittered as the Gateway docs require
    */
   private startHeartbeat(interval: number): void {
-    if (this.heartbeatInterval !== null) {
-      clearInterval(this.heartbeatInterval);
+    this.cleanup();
+    
+    this.heartbeatIntervalMs = interval;
+    this.heartbeatAcked = true;
+    this.lastHeartbeatAck = Date.now();
+    
+    this.heartbeatTimeout = setTimeout(() => {
+      this.heartbeatTimeout = null;
+      this.heartbeat();
+      this.heartbeatInterval = setInterval(() => this.heartbeat(), interval) as any;
+    }, interval * Math.random()) as any;
+  }
+  
+  /**
+   * Send a scheduled heartbeat, reconnecting if the last one wasn't acknowledged
+   */
+  private heartbeat(): void {
+    // No ACK since the last heartbeat - the connection is a zombie
+    if (!this.heartbeatAcked) {
+      console.log('Heartbeat not acknowledged, reconnecting');
+      this.reconnect();
+      return;
+    }
+    
+    this.heartbeatAcked = false;
+    this.sendHeartbeat();
+  }
+  
+  /**
+   * Send HEARTBEAT payload
+   */
+  private sendHeartbeat(): void {
+    const payload: GatewayPayload = {
+      op: GatewayOpcode.HEARTBEAT,
+      d: this.sequenceNumber,
+    };
+    this.send(payload);
+  }
+  
+  /**
+   * Watchdog check - reconnect when the connection is gone or has stopped
+   * acknowledging heartbeats
+   */
+  private checkConnection(): void {
+    if (this.fatalCloseCode !== null || this.isReconnecting || this.reconnectTimeout !== null) {
+      return;
+    }
+    
+    const isOpen = this.ws?.readyState === WebSocket.OPEN;
+    const isStalled = this.heartbeatIntervalMs !== null
+      && this.lastHeartbeatAck !== null
+      && Date.now() - this.lastHeartbeatAck > this.heartbeatIntervalMs * 2;
+    
+    if (!isOpen || isStalled) {
+      console.log('Watchdog: Gateway connection lost, reconnecting', { isOpen, isStalled });
+      this.reconnect();
+    }
+  }
+  
+  /**
+   * Check whether the current session can be resumed
+   */
+  private canResume(): boolean {
+    return this.sessionId !== null && this.sequenceNumber !== null;
+  }
+  
+  /**
+   * Persist the resume state so a restarted isolate can resume the session
+   */
+  private async saveResumeState(): Promise<void> {
+    if (!this.sessionId) {
+      return;
     }
     
-    this.heartbeatInterval = setInterval(() => {
-      const payload: GatewayPayload = {
-        op: GatewayOpcode.HEARTBEAT,
-        d: this.sequenceNumber,
-      };
-      this.send(payload);
-    }, interval) as any;
+    const resumeState: GatewayResumeState = {
+      sessionId: this.sessionId,
+      sequenceNumber: this.sequenceNumber,
+      resumeGatewayUrl: this.resumeGatewayUrl,
+    };
+    await this.state.storage.put(RESUME_STATE_KEY, resumeState);
+    this.savedSequenceNumber = this.sequenceNumber;
+    this.resumeStateSavedAt = Date.now();
+  }
+  
+  /**
+   * Forget the current session so the next connection identifies again
+   */
+  private async resetSession(): Promise<void> {
+    this.sessionId = null;
+    this.sequenceNumber = null;
+    this.savedSequenceNumber = null;
+    this.resumeGatewayUrl = null;
+    await this.state.storage.delete(RESUME_STATE_KEY);
   }
   
   /**
@@ -295,6 +1126,10 @@ export class DiscordGateway {
    * Cleanup resources
    */
   private cleanup(): void {
+    if (this.heartbeatTimeout !== null) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
     if (this.heartbeatInterval !== null) {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
@@ -304,36 +1139,47 @@ export class DiscordGateway {
   /**
    * Schedule reconnection
    */
-  private scheduleReconnect(): void {
-    if (this.isReconnecting) return;
+  private scheduleReconnect(delay?: number): void {
+    if (this.isReconnecting || this.reconnectTimeout !== null) return;
     
     this.reconnectAttempts++;
-    const delay = Math.min(5000 * this.reconnectAttempts, 60000); // Max 60 seconds
+    const reconnectDelay = delay ?? Math.min(5000 * this.reconnectAttempts, 60000); // Max 60 seconds
     
-    console.log(`Scheduling reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    console.log(`Scheduling reconnect in ${reconnectDelay}ms (attempt ${this.reconnectAttempts})`);
     
-    setTimeout(() => {
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
       this.reconnect();
-    }, delay);
+    }, reconnectDelay) as any;
   }
   
   /**
    * Reconnect to Gateway
    */
   private async reconnect(): Promise<void> {
+    if (this.isReconnecting) return;
+    
     this.isReconnecting = true;
     this.cleanup();
     
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    
     if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
       try {
-        this.ws.close();
+        // Closing with 1000 or 1001 would invalidate the session - keep it resumable
+        ws.close(4000, 'Reconnecting');
       } catch (error) {
         // Ignore close errors
       }
-      this.ws = null;
     }
     
-    await this.connect();
     this.isReconnecting = false;
+    await this.saveResumeState();
+    await this.connect();
   }
 }
@@ -17,10 +17,32 @@ export enum GatewayOpcode {
 export enum GatewayIntent {
   GUILDS = 1 << 0,
   GUILD_MEMBERS = 1 << 1,
+  GUILD_PRESENCES = 1 << 8,
   GUILD_MESSAGES = 1 << 9,
+  GUILD_MESSAGE_TYPING = 1 << 11,
   MESSAGE_CONTENT = 1 << 15,
 }
 
+// Discord Gateway close codes
+export enum GatewayCloseCode {
+  UNKNOWN_ERROR = 4000,
+  AUTHENTICATION_FAILED = 4004,
+  INVALID_SEQ = 4007,
+  SESSION_TIMED_OUT = 4009,
+  INVALID_SHARD = 4010,
+  SHARDING_REQUIRED = 4011,
+  INVALID_API_VERSION = 4012,
+  INVALID_INTENTS = 4013,
+  DISALLOWED_INTENTS = 4014,
+}
+
+// Gateway session persisted for resuming after restarts
+export interface GatewayResumeState {
+  sessionId: string;
+  sequenceNumber: number | null;
+  resumeGatewayUrl: string | null;
+}
+
 // Gateway payload
 export interface GatewayPayload {
   op: GatewayOpcode;
@@ -37,8 +59,12 @@ export interface DiscordMessage {
     id: string;
     username: string;
     discriminator: string;
+    global_name?: string | null;
+    avatar?: string | null;
     bot?: boolean;
   };
+  guild_id?: string;
+  member?: DiscordMessageMember; // Server profile of the author (guild messages only)
   content: string;
   timestamp: string;
   edited_timestamp?: string | null;
@@ -46,8 +72,8 @@ export interface DiscordMessage {
   mention_everyone: boolean;
   mentions: any[];
   mention_roles: any[];
-  attachments: any[];
-  embeds: any[];
+  attachments: DiscordAttachment[];
+  embeds: DiscordEmbed[];
   reactions?: any[];
   nonce?: string | number;
   pinned: boolean;
@@ -59,19 +85,177 @@ export interface DiscordMessage {
   flags?: number;
 }
 
+export interface DiscordMessageMember {
+  nick?: string | null;
+  avatar?: string | null;
+}
+
+// Discord thread channel (THREAD_CREATE, THREAD_UPDATE, THREAD_DELETE)
+export interface DiscordThread {
+  id: string;
+  type: number;
+  guild_id?: string;
+  parent_id?: string | null;
+  name?: string;
+}
+
+// Discord THREAD_LIST_SYNC event
+export interface DiscordThreadListSync {
+  guild_id: string;
+  channel_ids?: string[];
+  threads: DiscordThread[];
+}
+
+// Discord GUILD_CREATE event (only the fields the relay uses)
+export interface DiscordGuildCreate {
+  id: string;
+  threads?: DiscordThread[];
+}
+
+// Discord guild member (GUILD_MEMBERS_CHUNK, GUILD_MEMBER_ADD and GUILD_MEMBER_UPDATE)
+export interface DiscordGuildMember {
+  user: { id: string; bot?: boolean };
+  roles: string[];
+}
+
+// Discord GUILD_MEMBERS_CHUNK event, the reply to REQUEST_GUILD_MEMBERS
+export interface DiscordGuildMembersChunk {
+  guild_id: string;
+  members: DiscordGuildMember[];
+  presences?: DiscordPresenceUpdate[];
+  chunk_index: number;
+  chunk_count: number;
+}
+
+// Discord GUILD_MEMBER_REMOVE event
+export interface DiscordGuildMemberRemove {
+  guild_id: string;
+  user: { id: string };
+}
+
+// Discord PRESENCE_UPDATE event (only the fields the relay uses)
+export interface DiscordPresenceUpdate {
+  user: { id: string };
+  guild_id?: string;
+  status: 'online' | 'idle' | 'dnd' | 'offline';
+}
+
+// Discord MESSAGE_DELETE event
+export interface DiscordMessageDelete {
+  id: string;
+  channel_id: string;
+  guild_id?: string;
+}
+
+// Discord TYPING_START event
+export interface DiscordTypingStart {
+  channel_id: string;
+  guild_id?: string;
+  user_id: string;
+  timestamp: number; // Unix time in seconds
+  member?: DiscordMessageMember & {
+    user?: {
+      id: string;
+      username: string;
+      global_name?: string | null;
+      bot?: boolean;
+    };
+  };
+}
+
+// Discord message attachment
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  size: number;
+  url: string;
+  proxy_url: string;
+  content_type?: string;
+  width?: number | null;
+  height?: number | null;
+}
+
+// Discord message embed
+export interface DiscordEmbed {
+  type?: string;
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  image?: { url: string; width?: number; height?: number };
+  thumbnail?: { url: string; width?: number; height?: number };
+}
+
 // Environment bindings
 export interface Env {
   DISCORD_GATEWAY: DurableObjectNamespace;
   DISCORD_BOT_TOKEN: string;
+  DISCORD_SUPPORT_CHANNEL_ID: string; // Comma-separated, one per site
   MAIN_WORKER_URL: string;
   BOT_RELAY_SECRET: string;
+  SUPPORT_ROLE_ID?: string; // Comma-separated roles whose members' presence is reported
   ENVIRONMENT?: string;
 }
 
+// Agent presence report to main worker
+export interface AgentPresence {
+  roles: Record<string, RolePresence>; // By role ID
+}
+
+export interface RolePresence {
+  online: number;
+  away: number; // Idle or do not disturb
+}
+
 // Relay message to main worker
+export type RelayMessageType = 'message' | 'typing' | 'edit' | 'delete';
+
 export interface RelayMessage {
+  type: RelayMessageType;
   threadId: string;
+  messageId?: string; // Discord message ID (message, edit and delete)
   message: string;
-  author: string;
+  author: string; // Display name of the agent
+  authorId?: string; // Discord user ID (new messages only)
+  authorAvatar?: string; // Avatar URL (new messages only)
   timestamp: number;
+  attachments?: RelayAttachment[];
+  embeds?: RelayEmbed[];
+}
+
+// Attachment forwarded to the widget
+export interface RelayAttachment {
+  url: string;
+  filename: string;
+  contentType?: string;
+  size: number;
+  width?: number;
+  height?: number;
+}
+
+// Simplified embed forwarded to the widget
+export interface RelayEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+}
+
+// Relay message waiting in the gateway outbox
+export interface OutboxEntry {
+  relay: RelayMessage;
+  attempts: number;
+  enqueuedAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// Relay message that could not be delivered to the main worker
+export interface DeadLetter {
+  relay: RelayMessage;
+  attempts: number;
+  enqueuedAt: number;
+  failedAt: number;
+  error: string;
 }
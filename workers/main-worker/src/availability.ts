@@ -0,0 +1,222 @@
+import {
+  Env,
+  SiteConfig,
+  DepartmentConfig,
+  BusinessHours,
+  Weekday,
+  AgentPresence,
+  AvailabilityData,
+} from './types';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MINUTE = 60 * 1000;
+const SCAN_STEP = 15 * MINUTE; // Opening hours are searched in steps, then to the minute
+const SCAN_LIMIT = 14 * 24 * 60 * MINUTE; // How far ahead the next opening or closing is searched
+const DEFAULT_RESPONSE_TIMES = { online: 'a few minutes', away: 'a few hours' };
+
+// Local time formatters per time zone, shared by all requests in this isolate
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Last computed state per schedule, valid until it changes
+const hoursCache = new WeakMap<BusinessHours, { open: boolean; checkedAt: number; changesAt?: number }>();
+
+/**
+ * Work out whether a site's (or department's) agents can answer now
+ * Without business hours the chat is always open, without presence agents count as online
+ */
+export function getAvailability(
+  site: SiteConfig,
+  department: DepartmentConfig | null,
+  presence: AgentPresence | null,
+  now: number = Date.now()
+): AvailabilityData {
+  const hours = department?.businessHours || site.businessHours;
+  const { open, changesAt } = hours ? getHoursState(hours, now) : { open: true, changesAt: undefined };
+  
+  if (!open) {
+    return { status: 'offline', open, nextOpenAt: changesAt, changesAt };
+  }
+  
+  const roleId = department?.roleId || site.supportRoleId;
+  const agents = roleId ? presence?.roles[roleId] : undefined;
+  const status = !agents || agents.online > 0 ? 'online' : 'away';
+  
+  return {
+    status,
+    open,
+    agentsOnline: agents?.online,
+    responseTime: site.responseTimes?.[status] || DEFAULT_RESPONSE_TIMES[status],
+    changesAt,
+  };
+}
+
+/**
+ * Get the agent presence last reported by the bot relay
+ * Returns null until the relay has reported any
+ */
+export async function loadAgentPresence(env: Env): Promise<AgentPresence | null> {
+  const coordinatorId = env.CHAT_SESSION.idFromName('message-coordinator');
+  const coordinator = env.CHAT_SESSION.get(coordinatorId);
+  
+  const response = await coordinator.fetch(new Request('https://internal/presence/lookup', {
+    method: 'POST',
+  }));
+  
+  if (response.status === 404) {
+    return null;
+  }
+  
+  if (!response.ok) {
+    throw new Error(`Agent presence lookup failed: ${response.status}`);
+  }
+  
+  return await response.json() as AgentPresence;
+}
+
+/**
+ * Parse business hours ({ timezone, days: { mon: ["09:00-17:00"] }, holidays: ["2025-12-25"] })
+ * Accepts the object or its JSON, returns undefined if it can't be used
+ */
+export function parseBusinessHours(value: unknown): BusinessHours | undefined {
+  let raw: unknown = value;
+  if (typeof value === 'string') {
+    if (!value.trim()) {
+      return undefined;
+    }
+    try {
+      raw = JSON.parse(value);
+    } catch (error) {
+      console.error('Invalid business hours:', error);
+      return undefined;
+    }
+  }
+  
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return undefined;
+  }
+  
+  const { timezone: rawTimezone, days: rawDays, holidays: rawHolidays } = raw as Record<string, unknown>;
+  const timezone = typeof rawTimezone === 'string' && rawTimezone ? rawTimezone : 'UTC';
+  try {
+    getFormatter(timezone);
+  } catch (error) {
+    console.error(`Unknown business hours time zone ${timezone}:`, error);
+    return undefined;
+  }
+  
+  const days: BusinessHours['days'] = {};
+  for (const day of WEEKDAYS) {
+    const ranges = rawDays && typeof rawDays === 'object' ? (rawDays as Record<string, unknown>)[day] : undefined;
+    days[day] = (Array.isArray(ranges) ? ranges : [])
+      .map(range => parseRange(String(range)))
+      .filter((range): range is [number, number] => range !== null);
+  }
+  
+  const holidays = Array.isArray(rawHolidays)
+    ? rawHolidays.map(String).filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date))
+    : [];
+  
+  return { timezone, days, holidays };
+}
+
+/**
+ * Parse an "HH:MM-HH:MM" range into minutes after midnight
+ * Ranges can end at 24:00 but not run past midnight
+ */
+function parseRange(range: string): [number, number] | null {
+  const match = range.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  const start = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  const end = match ? Number(match[3]) * 60 + Number(match[4]) : NaN;
+  
+  if (!(start >= 0 && start < end && end <= 24 * 60)) {
+    console.error(`Invalid business hours range ${range}`);
+    return null;
+  }
+  return [start, end];
+}
+
+/**
+ * Check whether a schedule is open, and find when that changes
+ */
+function getHoursState(hours: BusinessHours, now: number): { open: boolean; changesAt?: number } {
+  const cached = hoursCache.get(hours);
+  if (cached && now >= cached.checkedAt && now < (cached.changesAt ?? cached.checkedAt + SCAN_STEP)) {
+    return cached;
+  }
+  
+  const open = isOpenAt(hours, now);
+  const state = { open, checkedAt: now, changesAt: findChange(hours, now, open) };
+  hoursCache.set(hours, state);
+  return state;
+}
+
+/**
+ * Find the first minute after `from` at which the schedule is no longer `open`
+ * Returns undefined if nothing changes within the scan limit
+ */
+function findChange(hours: BusinessHours, from: number, open: boolean): number | undefined {
+  let previous = from;
+  
+  for (let time = Math.ceil(from / SCAN_STEP) * SCAN_STEP; time <= from + SCAN_LIMIT; time += SCAN_STEP) {
+    if (isOpenAt(hours, time) !== open) {
+      // Narrow down to the minute between the last two checks
+      for (let minute = Math.floor(previous / MINUTE) * MINUTE + MINUTE; minute < time; minute += MINUTE) {
+        if (isOpenAt(hours, minute) !== open) {
+          return minute;
+        }
+      }
+      return time;
+    }
+    previous = time;
+  }
+  
+  return undefined;
+}
+
+/**
+ * Check whether a schedule is open at a point in time
+ */
+function isOpenAt(hours: BusinessHours, time: number): boolean {
+  const { date, weekday, minutes } = getLocalTime(hours.timezone, time);
+  if (hours.holidays.includes(date)) {
+    return false;
+  }
+  return (hours.days[weekday] || []).some(([start, end]) => minutes >= start && minutes < end);
+}
+
+/**
+ * Get the local date, weekday and minutes after midnight in a time zone
+ */
+function getLocalTime(timezone: string, time: number): { date: string; weekday: Weekday; minutes: number } {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+  
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.toLowerCase() as Weekday,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Get a formatter for local times in a time zone (throws for unknown zones)
+ */
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
@@ -1,4 +1,59 @@
-import { Env, DiscordThread, DiscordThreadsResponse } from './types';
+import {
+  Env,
+  DiscordThread,
+  DiscordThreadsResponse,
+  DiscordChannel,
+  DiscordMessage,
+  DiscordWebhook,
+  VisitorIdentity,
+  ApplicationCommand,
+  SessionRating,
+  Transcript,
+  VerifiedIdentity,
+  SiteConfig,
+  DepartmentConfig,
+  ThreadStatus,
+} from './types';
+import { ThreadIndex, normalizeEmail } from './thread-index';
+import { DEFAULT_SITE_KEY } from './sites';
+import { CLAIM_BUTTON } from './interactions';
+
+const WEBHOOK_NAME = 'DiscoFlare Chat';
+const UNKNOWN_WEBHOOK = 10015; // Discord JSON error code
+const VERIFIED_THREAD_PREFIX = '✅ '; // Threads of visitors with a signed identity
+const DEFAULT_THREAD_REUSE_DAYS = 90;
+const MAX_THREAD_NAME = 100; // Discord limit for thread and forum post names
+const MAX_ARCHIVED_PAGES = 10; // Archived threads searched by the index fallback, 100 per page
+const GUILD_FORUM = 15; // Discord channel type
+const MAX_APPLIED_TAGS = 5; // Discord limit per forum post
+
+// Forum tag names for each chat status (matched case-insensitively)
+const STATUS_TAG_NAMES: Record<ThreadStatus, string> = {
+  new: 'New',
+  waiting_on_agent: 'Waiting on agent',
+  waiting_on_visitor: 'Waiting on visitor',
+  closed: 'Closed',
+};
+
+// Webhooks per parent channel, shared by all clients in this isolate
+const webhookCache = new Map<string, DiscordWebhook>();
+
+// Status tag IDs per forum channel (null for text channels), shared like webhooks
+const forumTagCache = new Map<string, Partial<Record<ThreadStatus, string>> | null>();
+
+/**
+ * Error returned by the Discord API
+ */
+export class DiscordApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: number | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DiscordApiError';
+  }
+}
 
 /**
  * Discord API client for managing threads and messages
@@ -6,62 +61,119 @@ import { Env, DiscordThread, DiscordThreadsResponse } from './types';
 export class DiscordClient {
   private env: Env;
   private baseUrl = 'https://discord.com/api/v10';
+  private site: SiteConfig | null;
+  private department: DepartmentConfig | null;
+  private threadIndex: ThreadIndex;
   
-  constructor(env: Env) {
+  /**
+   * Thread and visitor methods need the site (and department) whose channel they use
+   */
+  constructor(env: Env, site: SiteConfig | null = null, department: DepartmentConfig | null = null) {
     this.env = env;
+    this.site = site;
+    this.department = department;
+    
+    const siteKey = site?.key || DEFAULT_SITE_KEY;
+    this.threadIndex = new ThreadIndex(env, department ? `${siteKey}:${department.key}` : siteKey);
   }
   
   /**
    * Find existing thread by email or create a new one
+   * Only verified visitors get their previous thread back - a typed email proves nothing
    */
-  async findOrCreateThread(email: string, name: string): Promise<string> {
+  async findOrCreateThread(email: string, name: string, verified: boolean = false): Promise<string> {
     // Search for existing thread
-    const existingThread = await this.findThreadByEmail(email);
-    if (existingThread) {
-      // Unarchive if needed
-      if (existingThread.archived) {
-        await this.unarchiveThread(existingThread.id);
+    const existingThreadId = verified ? await this.findThread(email) : null;
+    if (existingThreadId) {
+      try {
+        // Unarchive if needed (a no-op for active threads)
+        await this.unarchiveThread(existingThreadId);
+        await this.rememberThread(email, existingThreadId);
+        return existingThreadId;
+      } catch (error) {
+        // Deleted in Discord since the last chat - start a new thread
+        if (!(error instanceof DiscordApiError && error.status === 404)) {
+          throw error;
+        }
       }
-      return existingThread.id;
     }
     
     // Create new thread
-    return await this.createThread(name, email);
+    return await this.createThread(name, email, verified);
+  }
+  
+  /**
+   * Find the thread a verified visitor last chatted in, within the reuse window
+   */
+  private async findThread(email: string): Promise<string | null> {
+    const reuseWindow = this.getThreadReuseWindow();
+    if (reuseWindow === 0) {
+      return null;
+    }
+    
+    try {
+      const entry = await this.threadIndex.lookup(email);
+      if (entry) {
+        return Date.now() - entry.lastUsedAt < reuseWindow ? entry.threadId : null;
+      }
+    } catch (error) {
+      console.error('Error looking up thread index:', error);
+      return null;
+    }
+    
+    // Threads created before the index existed
+    if (this.env.THREAD_INDEX_FALLBACK === 'false') {
+      return null;
+    }
+    return this.findThreadByEmail(email, reuseWindow);
   }
   
   /**
-   * Search for existing thread by email in thread name
+   * Search thread names for a verified visitor's thread (index migration fallback)
+   * Archived threads are paged newest first until they fall outside the reuse window
    */
-  private async findThreadByEmail(email: string): Promise<DiscordThread | null> {
+  private async findThreadByEmail(email: string, reuseWindow: number): Promise<string | null> {
+    const channelId = this.getSupportChannelId();
+    const normalized = normalizeEmail(email);
+    
     try {
-      // Get active threads
+      // Search in active threads
       const activeResponse = await this.request<DiscordThreadsResponse>(
         'GET',
-        `/channels/${this.env.DISCORD_SUPPORT_CHANNEL_ID}/threads/active`
+        `/channels/${channelId}/threads/active`
       );
       
-      // Search in active threads
-      for (const thread of activeResponse.threads || []) {
-        if (thread.name.includes(email)) {
-          if (this.isThreadRecent(thread.id)) {
-            return thread;
-          }
-        }
+      const active = (activeResponse.threads || []).find(thread => this.isVisitorThread(thread, normalized));
+      if (active) {
+        return active.id;
       }
       
-      // Get archived threads
-      const archivedResponse = await this.request<DiscordThreadsResponse>(
-        'GET',
-        `/channels/${this.env.DISCORD_SUPPORT_CHANNEL_ID}/threads/archived/public`
-      );
+      // Search in archived threads
+      const cutoff = Date.now() - reuseWindow;
+      let before: string | undefined;
       
-      // Search in archived threads (within 90 days)
-      for (const thread of archivedResponse.threads || []) {
-        if (thread.name.includes(email)) {
-          if (this.isThreadRecent(thread.id, 90)) {
-            return thread;
+      for (let page = 0; page < MAX_ARCHIVED_PAGES; page++) {
+        const query = before ? `?limit=100&before=${encodeURIComponent(before)}` : '?limit=100';
+        const archivedResponse = await this.request<DiscordThreadsResponse>(
+          'GET',
+          `/channels/${channelId}/threads/archived/public${query}`
+        );
+        
+        for (const thread of archivedResponse.threads || []) {
+          const archivedAt = Date.parse(thread.thread_metadata?.archive_timestamp || '');
+          if (archivedAt < cutoff) {
+            return null;
+          }
+          if (this.isVisitorThread(thread, normalized)) {
+            return thread.id;
           }
         }
+        
+        const last = archivedResponse.threads?.[archivedResponse.threads.length - 1];
+        if (!archivedResponse.has_more || !last?.thread_metadata) {
+          break;
+        }
+        before = last.thread_metadata.archive_timestamp;
       }
       
       return null;
@@ -71,23 +183,140 @@ export class DiscordClient {
     }
   }
   
+  /**
+   * Check whether a thread was created for a verified visitor with this email
+   * Thread names end with the email, so compare it exactly rather than as a substring,
+   * and only trust threads the bot created
+   */
+  private isVisitorThread(thread: DiscordThread, normalizedEmail: string): boolean {
+    if (!thread.name.startsWith(VERIFIED_THREAD_PREFIX)) {
+      return false;
+    }
+    const botId = this.env.DISCORD_APPLICATION_ID;
+    if (botId && thread.owner_id !== botId) {
+      return false;
+    }
+    const email = thread.name.slice(thread.name.lastIndexOf(' - ') + 3);
+    return normalizeEmail(email) === normalizedEmail;
+  }
+  
+  /**
+   * Record a verified visitor's thread in the index
+   */
+  private async rememberThread(email: string, threadId: string): Promise<void> {
+    try {
+      await this.threadIndex.remember(email, threadId);
+    } catch (error) {
+      // The chat works without it - the visitor just gets a new thread next time
+      console.error('Error updating thread index:', error);
+    }
+  }
+  
+  /**
+   * Get the support channel of the client's department, else its site
+   */
+  private getSupportChannelId(): string {
+    if (!this.site) {
+      throw new Error('No site configured for this Discord client');
+    }
+    return this.department?.channelId || this.site.supportChannelId;
+  }
+  
+  /**
+   * Get the configured thread reuse window in milliseconds
+   */
+  private getThreadReuseWindow(): number {
+    const days = parseInt(this.env.THREAD_REUSE_DAYS || '', 10);
+    return (days >= 0 ? days : DEFAULT_THREAD_REUSE_DAYS) * 24 * 60 * 60 * 1000;
+  }
+  
   /**
    * Create a new support thread
    */
-  private async createThread(name: string, email: string): Promise<string> {
+  private async createThread(name: string, email: string, verified: boolean): Promise<string> {
+    // Unverified names can't start with the prefix, so they are never reused
+    const prefix = verified ? VERIFIED_THREAD_PREFIX : '';
+    const labels = [this.site?.name, this.department?.name].filter(Boolean);
+    const label = labels.length > 0 ? `[${labels.join(' / ')}] ` : '';
+    const statusTags = await this.getStatusTags();
     const response = await this.request<DiscordThread>(
       'POST',
-      `/channels/${this.env.DISCORD_SUPPORT_CHANNEL_ID}/threads`,
+      `/channels/${this.getSupportChannelId()}/threads`,
       {
-        name: `Support: ${name} - ${email}`,
+        name: buildThreadName(`${prefix}${label}Support: `, name, email),
         auto_archive_duration: 60, // Archive after 60 minutes of inactivity
-        type: 11, // Public thread
+        // Forum posts need a starter message, text channel threads a type
+        ...(statusTags
+          ? {
+            message: { content: `💬 Support chat with ${escapeMarkdown(name)}`, allowed_mentions: { parse: [] } },
+            applied_tags: statusTags.new ? [statusTags.new] : [],
+          }
+          : { type: 11 }), // Public thread
       }
     );
     
+    // Only verified visitors are looked up again
+    if (verified) {
+      await this.rememberThread(email, response.id);
+    }
+    
     return response.id;
   }
   
+  /**
+   * Tag a forum post with the chat's status, keeping tags the agents added
+   * Does nothing in text channels
+   */
+  async setThreadStatus(threadId: string, status: ThreadStatus): Promise<void> {
+    const statusTags = await this.getStatusTags();
+    if (!statusTags) {
+      return;
+    }
+    
+    const thread = await this.request<DiscordThread>('GET', `/channels/${threadId}`);
+    const statusTagIds = Object.values(statusTags);
+    const appliedTags = (thread.applied_tags || []).filter(id => !statusTagIds.includes(id));
+    const statusTag = statusTags[status];
+    if (statusTag) {
+      appliedTags.unshift(statusTag);
+    }
+    
+    await this.request(
+      'PATCH',
+      `/channels/${threadId}`,
+      {
+        applied_tags: appliedTags.slice(0, MAX_APPLIED_TAGS),
+      }
+    );
+  }
+  
+  /**
+   * Get the status tag IDs of the support channel
+   * Returns null if it isn't a forum channel
+   */
+  private async getStatusTags(): Promise<Partial<Record<ThreadStatus, string>> | null> {
+    const channelId = this.getSupportChannelId();
+    const cached = forumTagCache.get(channelId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    
+    const channel = await this.request<DiscordChannel>('GET', `/channels/${channelId}`);
+    let statusTags: Partial<Record<ThreadStatus, string>> | null = null;
+    if (channel.type === GUILD_FORUM) {
+      statusTags = {};
+      for (const [status, tagName] of Object.entries(STATUS_TAG_NAMES) as [ThreadStatus, string][]) {
+        const tag = channel.available_tags?.find(t => t.name.toLowerCase() === tagName.toLowerCase());
+        if (tag) {
+          statusTags[status] = tag.id;
+        }
+      }
+    }
+    
+    forumTagCache.set(channelId, statusTags);
+    return statusTags;
+  }
+  
   /**
    * Unarchive a thread
    */
@@ -102,27 +331,293 @@ export class DiscordClient {
   }
   
   /**
-   * Send a message to a Discord thread
+   * Archive a thread
    */
-  async sendMessage(threadId: string, content: string): Promise<void> {
+  async archiveThread(threadId: string): Promise<void> {
     await this.request(
+      'PATCH',
+      `/channels/${threadId}`,
+      {
+        archived: true,
+      }
+    );
+  }
+  
+  /**
+   * Send a message to a Discord thread, optionally with buttons
+   */
+  async sendMessage(
+    threadId: string,
+    content: string,
+    mentionRoles: string[] = [],
+    components?: unknown[]
+  ): Promise<DiscordMessage> {
+    return await this.request<DiscordMessage>(
       'POST',
       `/channels/${threadId}/messages`,
-      { content }
+      { content, allowed_mentions: { parse: [], roles: mentionRoles }, components }
+    );
+  }
+  
+  /**
+   * Send a message with a file attached to a Discord thread
+   */
+  async sendFile(threadId: string, content: string, file: Transcript): Promise<DiscordMessage> {
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify({
+      content,
+      attachments: [{ id: 0, filename: file.filename }],
+      allowed_mentions: { parse: [] },
+    }));
+    form.append('files[0]', new Blob([file.content], { type: file.contentType }), file.filename);
+    
+    return await this.request<DiscordMessage>('POST', `/channels/${threadId}/messages`, form);
+  }
+  
+  /**
+   * Post a visitor message through the channel webhook, authored as the visitor
+   */
+  async sendVisitorMessage(
+    threadId: string,
+    visitor: VisitorIdentity,
+    content: string
+  ): Promise<DiscordMessage> {
+    return await this.webhookRequest<DiscordMessage>(
+      'POST',
+      threadId,
+      '',
+      {
+        content: escapeMarkdown(content),
+        ...await this.getVisitorProfile(visitor),
+        allowed_mentions: { parse: [] },
+      }
     );
   }
   
+  /**
+   * Edit a visitor message posted through the webhook
+   */
+  async editVisitorMessage(threadId: string, messageId: string, content: string): Promise<void> {
+    await this.webhookRequest<DiscordMessage>(
+      'PATCH',
+      threadId,
+      `/messages/${messageId}`,
+      {
+        content: escapeMarkdown(content),
+        allowed_mentions: { parse: [] },
+      }
+    );
+  }
+  
+  /**
+   * Delete a visitor message posted through the webhook
+   */
+  async deleteVisitorMessage(threadId: string, messageId: string): Promise<void> {
+    await this.webhookRequest<void>('DELETE', threadId, `/messages/${messageId}`);
+  }
+  
+  /**
+   * Add a reaction from the bot to a message
+   */
+  async addReaction(threadId: string, messageId: string, emoji: string): Promise<void> {
+    await this.request(
+      'PUT',
+      `/channels/${threadId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`
+    );
+  }
+  
+  /**
+   * Show the typing indicator in a Discord thread
+   */
+  async triggerTyping(threadId: string): Promise<void> {
+    await this.request('POST', `/channels/${threadId}/typing`);
+  }
+  
+  /**
+   * Replace the application's global slash commands
+   */
+  async registerCommands(commands: ApplicationCommand[]): Promise<void> {
+    await this.request('PUT', `/applications/${this.env.DISCORD_APPLICATION_ID}/commands`, commands);
+  }
+  
+  /**
+   * Post a visitor file through the channel webhook as a multipart attachment
+   */
+  async sendVisitorFile(
+    threadId: string,
+    visitor: VisitorIdentity,
+    file: { filename: string; contentType: string; data: ArrayBuffer }
+  ): Promise<DiscordMessage> {
+    const payload = {
+      ...await this.getVisitorProfile(visitor),
+      attachments: [{ id: 0, filename: file.filename }],
+      allowed_mentions: { parse: [] },
+    };
+    
+    // Build the form per attempt - a retried request needs a fresh body
+    return await this.webhookRequest<DiscordMessage>('POST', threadId, '', () => {
+      const form = new FormData();
+      form.append('payload_json', JSON.stringify(payload));
+      form.append('files[0]', new Blob([file.data], { type: file.contentType }), file.filename);
+      return form;
+    });
+  }
+  
+  /**
+   * Make a request against the support channel's webhook, scoped to a thread
+   * Recreates the webhook once if it was deleted in Discord
+   */
+  private async webhookRequest<T>(
+    method: string,
+    threadId: string,
+    path: string,
+    body?: object | (() => FormData)
+  ): Promise<T> {
+    const parentId = this.getSupportChannelId();
+    const resolveBody = () => typeof body === 'function' ? body() : body;
+    
+    // Only executing the webhook supports waiting for the created message
+    const query = method === 'POST'
+      ? `?wait=true&thread_id=${threadId}`
+      : `?thread_id=${threadId}`;
+    
+    for (let attempt = 0; ; attempt++) {
+      const webhook = await this.getWebhook(parentId);
+      try {
+        return await this.request<T>(
+          method,
+          `/webhooks/${webhook.id}/${webhook.token}${path}${query}`,
+          resolveBody()
+        );
+      } catch (error) {
+        const unknownWebhook = error instanceof DiscordApiError && error.code === UNKNOWN_WEBHOOK;
+        if (!unknownWebhook || attempt > 0) {
+          throw error;
+        }
+        webhookCache.delete(parentId);
+      }
+    }
+  }
+  
+  /**
+   * Get (or create) the webhook used for visitor messages in a channel
+   */
+  private async getWebhook(channelId: string): Promise<DiscordWebhook> {
+    const cached = webhookCache.get(channelId);
+    if (cached) {
+      return cached;
+    }
+    
+    const webhooks = await this.request<DiscordWebhook[]>(
+      'GET',
+      `/channels/${channelId}/webhooks`
+    );
+    
+    let webhook = webhooks.find(w => w.name === WEBHOOK_NAME && w.token);
+    if (!webhook) {
+      webhook = await this.request<DiscordWebhook>(
+        'POST',
+        `/channels/${channelId}/webhooks`,
+        { name: WEBHOOK_NAME }
+      );
+    }
+    
+    webhookCache.set(channelId, webhook);
+    return webhook;
+  }
+  
+  /**
+   * Get the webhook username and avatar for a visitor
+   */
+  private async getVisitorProfile(visitor: VisitorIdentity): Promise<{ username: string; avatar_url: string }> {
+    // Gravatar accepts SHA-256 hashes and falls back to a generated identicon
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(visitor.email.trim().toLowerCase())
+    );
+    const hash = [...new Uint8Array(digest)]
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+    
+    return {
+      username: sanitizeWebhookUsername(visitor.name),
+      avatar_url: `https://www.gravatar.com/avatar/${hash}?d=identicon&s=128`,
+    };
+  }
+  
   /**
    * Send a formatted initial message to Discord
    */
-  async sendInitialMessage(threadId: string, name: string, email: string, page: string): Promise<void> {
-    const content = `**New Chat Session**\n` +
-      `👤 **Name:** ${name}\n` +
-      `📧 **Email:** ${email}\n` +
-      `📄 **Page:** ${page}\n` +
-      `⏰ **Time:** ${new Date().toISOString()}\n` +
+  async sendInitialMessage(
+    threadId: string,
+    name: string,
+    email: string,
+    page: string,
+    identity?: VerifiedIdentity
+  ): Promise<void> {
+    // Ping the department's team
+    const roleId = this.department?.roleId;
+    
+    const content = (roleId ? `<@&${roleId}> ` : '') +
+      `**New Chat Session**\n` +
+      this.describeVisitor(name, email, page, identity) +
       `\n*Waiting for visitor's first message...*`;
     
+    await this.sendMessage(threadId, content, roleId ? [roleId] : [], [CLAIM_BUTTON]);
+  }
+  
+  /**
+   * Post the header of a message left while no agent was available
+   * The message itself follows from the visitor's webhook profile
+   */
+  async sendOfflineTicket(
+    threadId: string,
+    name: string,
+    email: string,
+    page: string,
+    identity?: VerifiedIdentity
+  ): Promise<void> {
+    const roleId = this.department?.roleId;
+    
+    const content = (roleId ? `<@&${roleId}> ` : '') +
+      `📭 **Offline Message**\n` +
+      this.describeVisitor(name, email, page, identity) +
+      `\n*No agent was available. Replies in this thread are shown to the visitor when they come back to the chat.*`;
+    
+    await this.sendMessage(threadId, content, roleId ? [roleId] : [], [CLAIM_BUTTON]);
+  }
+  
+  /**
+   * Describe the visitor and where they came from, one detail per line
+   */
+  private describeVisitor(name: string, email: string, page: string, identity?: VerifiedIdentity): string {
+    const attributes = Object.entries(identity?.attributes || {})
+      .map(([key, value]) => `🏷️ **${escapeMarkdown(key)}:** ${escapeMarkdown(value)}\n`)
+      .join('');
+    
+    return (this.site?.name ? `🌐 **Site:** ${escapeMarkdown(this.site.name)}\n` : '') +
+      (this.department ? `🏢 **Department:** ${escapeMarkdown(this.department.name)}\n` : '') +
+      `👤 **Name:** ${escapeMarkdown(name)}\n` +
+      `📧 **Email:** ${escapeMarkdown(email)}${identity ? ' ✅' : ' (unverified)'}\n` +
+      (identity ? `🔐 **User ID:** ${escapeMarkdown(identity.userId)}\n` : '') +
+      attributes +
+      `📄 **Page:** ${escapeMarkdown(page)}\n` +
+      `⏰ **Time:** ${new Date().toISOString()}\n`;
+  }
+  
+  /**
+   * Post the visitor's satisfaction rating to a thread
+   */
+  async sendRating(threadId: string, rating: SessionRating): Promise<void> {
+    const score = rating.scale === 'thumbs'
+      ? (rating.score ? '👍' : '👎')
+      : `${'⭐'.repeat(rating.score)} (${rating.score}/5)`;
+    
+    let content = `📊 **Visitor rating:** ${score}`;
+    if (rating.comment) {
+      content += `\n💬 **Comment:** ${escapeMarkdown(rating.comment)}`;
+    }
+    
     await this.sendMessage(threadId, content);
   }
   
@@ -134,24 +629,37 @@ export class DiscordClient {
     path: string,
     body?: any
   ): Promise<T> {
+    // Multipart bodies set their own Content-Type with the boundary
+    const isMultipart = body instanceof FormData;
+    
     const options: RequestInit = {
       method,
       headers: {
         'Authorization': `Bot ${this.env.DISCORD_BOT_TOKEN}`,
-        'Content-Type': 'application/json',
+        ...(isMultipart ? {} : { 'Content-Type': 'application/json' }),
         'User-Agent': 'CloudflareChat/1.0',
       },
     };
     
     if (body) {
-      options.body = JSON.stringify(body);
+      options.body = isMultipart ? body : JSON.stringify(body);
     }
     
     const response = await fetch(`${this.baseUrl}${path}`, options);
     
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Discord API error: ${response.status} ${errorText}`);
+      let code: number | undefined;
+      try {
+        code = JSON.parse(errorText).code;
+      } catch {
+        // Not a JSON error body
+      }
+      throw new DiscordApiError(
+        response.status,
+        code,
+        `Discord API error: ${response.status} ${errorText}`
+      );
     }
     
     // Some endpoints return 204 No Content
@@ -162,17 +670,6 @@ export class DiscordClient {
     return await response.json() as T;
   }
   
-  /**
-   * Check if thread is recent (within specified days)
-   */
-  private isThreadRecent(threadId: string, maxDays: number = 90): boolean {
-    const DISCORD_EPOCH = 1420070400000;
-    const timestamp = Number(BigInt(threadId) >> 22n) + DISCORD_EPOCH;
-    const age = Date.now() - timestamp;
-    const maxAge = maxDays * 24 * 60 * 60 * 1000;
-    return age < maxAge;
-  }
-  
   /**
    * Get snowflake timestamp
    */
@@ -181,3 +678,49 @@ export class DiscordClient {
     return Number(BigInt(snowflake) >> 22n) + DISCORD_EPOCH;
   }
 }
+
+/**
+ * Escape Discord markdown so visitor text is shown literally
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_~`|>#\[\]()-])/g, '\\$1');
+}
+
+/**
+ * Fit a thread name into Discord's limit, shortening the visitor's name, then the labels
+ * The email at the end is what the index fallback matches, so it is kept whole
+ */
+function buildThreadName(head: string, name: string, email: string): string {
+  const suffix = ` - ${email}`;
+  const room = MAX_THREAD_NAME - suffix.length;
+  if (room < 2) {
+    // Only for emails close to the limit on their own
+    return truncate(`${head}${name}${suffix}`, MAX_THREAD_NAME);
+  }
+  return truncate(`${head}${name}`, room) + suffix;
+}
+
+/**
+ * Cut text to a length, ending with an ellipsis when shortened
+ */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  // Don't leave half of a surrogate pair (emoji) behind
+  return text.slice(0, maxLength - 1).replace(/[\uD800-\uDBFF]$/, '') + '…';
+}
+
+/**
+ * Make a visitor name acceptable as a webhook username
+ * Discord rejects names containing "discord", "clyde" and some characters,
+ * and names that are exactly "everyone" or "here"
+ */
+function sanitizeWebhookUsername(name: string): string {
+  const cleaned = name
+    .replace(/discord|clyde/gi, '')
+    .replace(/[@#:`]/g, '')
+    .trim()
+    .slice(0, 80);
+  return cleaned && !/^(everyone|here)$/i.test(cleaned) ? cleaned : 'Visitor';
+}
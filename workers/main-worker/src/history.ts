@@ -0,0 +1,223 @@
+import { HistoryData, StoredMessage } from './types';
+
+// Messages sent per history page (on restore and when scrolling up)
+export const HISTORY_PAGE_SIZE = 30;
+
+type MessageRow = {
+  seq: number;
+  message_id: string | null;
+  client_id: string | null;
+  direction: string;
+  author: string;
+  message: string;
+  timestamp: number;
+  attachments: string | null;
+  embeds: string | null;
+  edited: number;
+};
+
+const MESSAGE_COLUMNS = 'seq, message_id, client_id, direction, author, message, timestamp, attachments, embeds, edited';
+
+/**
+ * Create the message table if this object hasn't used it before
+ */
+export function initHistory(sql: SqlStorage): void {
+  sql.exec(`
+    CREATE TABLE IF NOT EXISTS messages (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      message_id TEXT,
+      client_id TEXT,
+      direction TEXT NOT NULL,
+      author TEXT NOT NULL,
+      message TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      attachments TEXT,
+      embeds TEXT,
+      edited INTEGER NOT NULL DEFAULT 0,
+      delivered INTEGER NOT NULL DEFAULT 1
+    );
+    CREATE INDEX IF NOT EXISTS messages_session ON messages (session_id, seq);
+  `);
+}
+
+/**
+ * Store a message
+ * Undelivered messages are agent replies the visitor hasn't seen yet
+ */
+export function addMessage(
+  sql: SqlStorage,
+  sessionId: string,
+  message: StoredMessage,
+  delivered: boolean = true
+): void {
+  sql.exec(
+    `INSERT INTO messages
+      (session_id, message_id, client_id, direction, author, message, timestamp, attachments, embeds, edited, delivered)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    sessionId,
+    message.id ?? null,
+    message.clientId ?? null,
+    message.direction || 'agent',
+    message.author,
+    message.message,
+    message.timestamp,
+    message.attachments ? JSON.stringify(message.attachments) : null,
+    message.embeds ? JSON.stringify(message.embeds) : null,
+    message.edited ? 1 : 0,
+    delivered ? 1 : 0
+  );
+}
+
+/**
+ * Find a message by Discord ID
+ */
+export function findMessage(sql: SqlStorage, sessionId: string, messageId: string): StoredMessage | undefined {
+  const rows = sql.exec<MessageRow>(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE session_id = ? AND message_id = ? LIMIT 1`,
+    sessionId,
+    messageId
+  ).toArray();
+  return rows.length ? toStoredMessage(rows[0]) : undefined;
+}
+
+/**
+ * Find a visitor message by its client-generated ID
+ */
+export function findMessageByClientId(sql: SqlStorage, sessionId: string, clientId: string): StoredMessage | undefined {
+  const rows = sql.exec<MessageRow>(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE session_id = ? AND client_id = ? LIMIT 1`,
+    sessionId,
+    clientId
+  ).toArray();
+  return rows.length ? toStoredMessage(rows[0]) : undefined;
+}
+
+/**
+ * Find the latest agent reply the visitor has been shown
+ */
+export function findLastAgentMessage(sql: SqlStorage, sessionId: string): StoredMessage | undefined {
+  const rows = sql.exec<MessageRow>(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages
+      WHERE session_id = ? AND direction = 'agent' AND message_id IS NOT NULL AND delivered = 1
+      ORDER BY seq DESC LIMIT 1`,
+    sessionId
+  ).toArray();
+  return rows.length ? toStoredMessage(rows[0]) : undefined;
+}
+
+/**
+ * Save the edited text, attachments and embeds of a message
+ */
+export function updateMessage(sql: SqlStorage, sessionId: string, message: StoredMessage): void {
+  sql.exec(
+    `UPDATE messages SET message = ?, attachments = ?, embeds = ?, edited = ?
+      WHERE session_id = ? AND message_id = ?`,
+    message.message,
+    message.attachments ? JSON.stringify(message.attachments) : null,
+    message.embeds ? JSON.stringify(message.embeds) : null,
+    message.edited ? 1 : 0,
+    sessionId,
+    message.id ?? null
+  );
+}
+
+/**
+ * Delete a message by Discord ID
+ * Returns true if the message was found
+ */
+export function deleteMessage(sql: SqlStorage, sessionId: string, messageId: string): boolean {
+  const cursor = sql.exec(
+    'DELETE FROM messages WHERE session_id = ? AND message_id = ?',
+    sessionId,
+    messageId
+  );
+  return cursor.rowsWritten > 0;
+}
+
+/**
+ * Get a page of delivered messages, oldest first
+ * `before` is the cursor of the previous page; omit it for the latest messages
+ */
+export function getHistoryPage(
+  sql: SqlStorage,
+  sessionId: string,
+  before?: number,
+  limit: number = HISTORY_PAGE_SIZE
+): HistoryData {
+  // Fetch one extra row to tell whether older messages remain
+  const rows = sql.exec<MessageRow>(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages
+      WHERE session_id = ? AND delivered = 1 AND seq < ?
+      ORDER BY seq DESC LIMIT ?`,
+    sessionId,
+    before ?? Number.MAX_SAFE_INTEGER,
+    limit + 1
+  ).toArray();
+  
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit).reverse();
+  
+  return {
+    messages: page.map(toStoredMessage),
+    cursor: hasMore ? page[0].seq : undefined,
+  };
+}
+
+/**
+ * Count agent replies the visitor hasn't seen yet
+ */
+export function countUndelivered(sql: SqlStorage, sessionId: string): number {
+  return sql.exec<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM messages WHERE session_id = ? AND delivered = 0',
+    sessionId
+  ).one().count;
+}
+
+/**
+ * Get the agent replies the visitor hasn't seen yet and mark them delivered
+ */
+export function takeUndelivered(sql: SqlStorage, sessionId: string): StoredMessage[] {
+  const rows = sql.exec<MessageRow>(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE session_id = ? AND delivered = 0 ORDER BY seq`,
+    sessionId
+  ).toArray();
+  
+  sql.exec('UPDATE messages SET delivered = 1 WHERE session_id = ? AND delivered = 0', sessionId);
+  
+  return rows.map(toStoredMessage);
+}
+
+/**
+ * Get every message of a session, including replies the visitor hasn't seen yet
+ */
+export function getAllMessages(sql: SqlStorage, sessionId: string): StoredMessage[] {
+  return sql.exec<MessageRow>(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE session_id = ? ORDER BY seq`,
+    sessionId
+  ).toArray().map(toStoredMessage);
+}
+
+/**
+ * Delete all messages of a session
+ */
+export function deleteSessionMessages(sql: SqlStorage, sessionId: string): void {
+  sql.exec('DELETE FROM messages WHERE session_id = ?', sessionId);
+}
+
+/**
+ * Convert a table row to a message
+ */
+function toStoredMessage(row: MessageRow): StoredMessage {
+  return {
+    id: row.message_id ?? undefined,
+    clientId: row.client_id ?? undefined,
+    direction: row.direction === 'visitor' ? 'visitor' : 'agent',
+    author: row.author,
+    message: row.message,
+    timestamp: row.timestamp,
+    attachments: row.attachments ? JSON.parse(row.attachments) : undefined,
+    embeds: row.embeds ? JSON.parse(row.embeds) : undefined,
+    edited: row.edited ? true : undefined,
+  };
+}
@@ -0,0 +1,88 @@
+import { SignedIdentity, VerifiedIdentity } from './types';
+import { hexToBytes } from './interactions';
+
+const IDENTITY_MAX_AGE = 24 * 60 * 60; // Seconds a signed identity stays valid
+const CLOCK_SKEW = 5 * 60; // Seconds an identity may be issued in the future
+const MAX_ATTRIBUTES = 20;
+const MAX_ATTRIBUTE_LENGTH = 200;
+
+/**
+ * Verify an identity signed by the host application (HMAC-SHA256 over the payload)
+ * Returns the identity, or null if it is unsigned, tampered with or expired
+ */
+export async function verifyIdentity(
+  identity: SignedIdentity,
+  secret: string | undefined
+): Promise<VerifiedIdentity | null> {
+  if (!secret) {
+    return null;
+  }
+  
+  if (typeof identity?.payload !== 'string' || typeof identity.signature !== 'string') {
+    return null;
+  }
+  
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      hexToBytes(identity.signature),
+      new TextEncoder().encode(identity.payload)
+    );
+    if (!valid) {
+      return null;
+    }
+    
+    const claims = JSON.parse(identity.payload);
+    if (
+      typeof claims.userId !== 'string' || !claims.userId ||
+      typeof claims.name !== 'string' || !claims.name ||
+      typeof claims.email !== 'string' || !claims.email ||
+      typeof claims.issuedAt !== 'number'
+    ) {
+      return null;
+    }
+    
+    // Signed identities are short-lived so a leaked one can't be replayed forever
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.issuedAt > now + CLOCK_SKEW || now - claims.issuedAt > IDENTITY_MAX_AGE) {
+      return null;
+    }
+    
+    return {
+      userId: claims.userId,
+      name: claims.name,
+      email: claims.email,
+      attributes: sanitizeAttributes(claims.attributes),
+    };
+  } catch (error) {
+    console.error('Identity verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * Keep only simple attribute values, converted to strings
+ */
+function sanitizeAttributes(attributes: unknown): Record<string, string> | undefined {
+  if (!attributes || typeof attributes !== 'object') {
+    return undefined;
+  }
+  
+  const sanitized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(attributes).slice(0, MAX_ATTRIBUTES)) {
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      sanitized[name.slice(0, MAX_ATTRIBUTE_LENGTH)] = String(value).slice(0, MAX_ATTRIBUTE_LENGTH);
+    }
+  }
+  
+  return Object.keys(sanitized).length > 0 ? sanitized : undefined;
+}
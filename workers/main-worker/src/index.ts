@@ -1,5 +1,21 @@
-import { Env, RelayMessage } from './types';
+import {
+  Env,
+  RelayMessage,
+  AgentCommandResult,
+  AgentPresence,
+  InteractionType,
+  InteractionResponseType,
+} from './types';
 import { ChatSession } from './session';
+import { DiscordClient } from './discord';
+import { getSite, getSites, getDepartment, isOriginAllowedForSite, DEFAULT_SITE_KEY } from './sites';
+import { getAvailability, loadAgentPresence } from './availability';
+import {
+  AGENT_COMMANDS,
+  verifyInteraction,
+  toAgentCommand,
+  createInteractionResponse,
+} from './interactions';
 
 // Export Durable Object
 export { ChatSession };
@@ -41,11 +57,46 @@ export default {
       return handleWebSocket(request, env, corsHeaders);
     }
     
+    // File upload endpoint (from widget)
+    if (url.pathname === '/upload' && request.method === 'POST') {
+      return handleUpload(request, env, corsHeaders);
+    }
+    
+    // Transcript download endpoint (from widget)
+    if (url.pathname === '/transcript' && request.method === 'GET') {
+      return handleTranscript(request, env, corsHeaders);
+    }
+    
+    // Availability endpoint (from widget, before the chat opens)
+    if (url.pathname === '/availability' && request.method === 'GET') {
+      return handleAvailability(request, env, corsHeaders);
+    }
+    
+    // Offline message endpoint (from widget, when no agent is available)
+    if (url.pathname === '/offline' && request.method === 'POST') {
+      return handleOfflineMessage(request, env, corsHeaders);
+    }
+    
     // Relay endpoint (from bot)
     if (url.pathname === '/relay' && request.method === 'POST') {
       return handleRelayMessage(request, env, corsHeaders);
     }
     
+    // Agent presence endpoint (from bot)
+    if (url.pathname === '/presence' && request.method === 'POST') {
+      return handlePresence(request, env, corsHeaders);
+    }
+    
+    // Interactions endpoint (agent slash commands from Discord)
+    if (url.pathname === '/interactions' && request.method === 'POST') {
+      return handleInteraction(request, env);
+    }
+    
+    // Slash command registration (run once after deploying)
+    if (url.pathname === '/interactions/register' && request.method === 'POST') {
+      return handleRegisterCommands(request, env);
+    }
+    
     // Default 404
     return new Response('Not Found', {
       status: 404,
@@ -62,9 +113,20 @@ async function handleWebSocket(
   env: Env,
   corsHeaders: Record<string, string>
 ): Promise<Response> {
-  // Validate origin
+  // Resolve the site the widget is embedded on
+  const url = new URL(request.url);
+  const siteKey = url.searchParams.get('siteKey') || DEFAULT_SITE_KEY;
+  const site = getSite(env, siteKey);
+  if (!site) {
+    return new Response('Unknown site', {
+      status: 404,
+      headers: corsHeaders,
+    });
+  }
+  
+  // Validate origin against the site's origins
   const origin = request.headers.get('Origin');
-  if (!isOriginAllowed(origin, env)) {
+  if (!isOriginAllowedForSite(origin, site)) {
     return new Response('Forbidden: Origin not allowed', {
       status: 403,
       headers: corsHeaders,
@@ -80,13 +142,280 @@ async function handleWebSocket(
     });
   }
   
-  // Create or get Durable Object
-  // Use a random ID for each connection
-  const id = env.CHAT_SESSION.idFromName(crypto.randomUUID());
+  // Route by session ID so reconnecting visitors reach the Durable Object
+  // holding their session. New visitors get a freshly issued ID.
+  const requestedId = url.searchParams.get('sessionId');
+  const sessionId = requestedId && isValidSessionId(requestedId)
+    ? requestedId
+    : crypto.randomUUID();
+  
+  const id = env.CHAT_SESSION.idFromName(`session:${sessionId}`);
   const stub = env.CHAT_SESSION.get(id);
   
-  // Forward request to Durable Object
-  return stub.fetch(request);
+  // Forward request to Durable Object with the resolved session ID and site
+  url.searchParams.set('sessionId', sessionId);
+  url.searchParams.set('siteKey', site.key);
+  return stub.fetch(new Request(url.toString(), request));
+}
+
+/**
+ * Check that a session ID has the shape of one we issued (UUID v4)
+ */
+function isValidSessionId(sessionId: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(sessionId);
+}
+
+/**
+ * Handle file uploads from the widget
+ */
+async function handleUpload(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  // Validate origin against the site the session belongs to
+  const url = new URL(request.url);
+  const site = getSite(env, url.searchParams.get('siteKey'));
+  if (!site) {
+    return new Response('Unknown site', {
+      status: 404,
+      headers: corsHeaders,
+    });
+  }
+  
+  const origin = request.headers.get('Origin');
+  if (!isOriginAllowedForSite(origin, site)) {
+    return new Response('Forbidden: Origin not allowed', {
+      status: 403,
+      headers: corsHeaders,
+    });
+  }
+  
+  const sessionId = url.searchParams.get('sessionId');
+  if (!sessionId || !isValidSessionId(sessionId)) {
+    return new Response(JSON.stringify({ error: 'Invalid session' }), {
+      status: 401,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+  
+  // The session's Durable Object checks the session and stores the file
+  const id = env.CHAT_SESSION.idFromName(`session:${sessionId}`);
+  const stub = env.CHAT_SESSION.get(id);
+  const response = await stub.fetch(new Request(url.toString(), request));
+  
+  return new Response(response.body, {
+    status: response.status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Handle transcript downloads from the widget
+ */
+async function handleTranscript(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  // Validate origin against the site the session belongs to
+  const url = new URL(request.url);
+  const site = getSite(env, url.searchParams.get('siteKey'));
+  if (!site) {
+    return new Response('Unknown site', {
+      status: 404,
+      headers: corsHeaders,
+    });
+  }
+  
+  const origin = request.headers.get('Origin');
+  if (!isOriginAllowedForSite(origin, site)) {
+    return new Response('Forbidden: Origin not allowed', {
+      status: 403,
+      headers: corsHeaders,
+    });
+  }
+  
+  const sessionId = url.searchParams.get('sessionId');
+  if (!sessionId || !isValidSessionId(sessionId)) {
+    return new Response(JSON.stringify({ error: 'Invalid session' }), {
+      status: 401,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+  
+  // The session's Durable Object checks the session and renders the transcript
+  const id = env.CHAT_SESSION.idFromName(`session:${sessionId}`);
+  const stub = env.CHAT_SESSION.get(id);
+  const response = await stub.fetch(new Request(url.toString(), request));
+  
+  const headers = new Headers(response.headers);
+  for (const [key, value] of Object.entries(corsHeaders)) {
+    headers.set(key, value);
+  }
+  
+  return new Response(response.body, {
+    status: response.status,
+    headers,
+  });
+}
+
+/**
+ * Handle availability checks from the widget
+ */
+async function handleAvailability(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const url = new URL(request.url);
+  const site = getSite(env, url.searchParams.get('siteKey'));
+  if (!site) {
+    return new Response('Unknown site', {
+      status: 404,
+      headers: corsHeaders,
+    });
+  }
+  
+  const origin = request.headers.get('Origin');
+  if (!isOriginAllowedForSite(origin, site)) {
+    return new Response('Forbidden: Origin not allowed', {
+      status: 403,
+      headers: corsHeaders,
+    });
+  }
+  
+  // Without a known department the site's hours and role apply
+  const department = getDepartment(site, url.searchParams.get('department'));
+  
+  let presence: AgentPresence | null = null;
+  try {
+    presence = await loadAgentPresence(env);
+  } catch (error) {
+    console.error('Error loading agent presence:', error);
+  }
+  
+  return new Response(
+    JSON.stringify(getAvailability(site, department, presence)),
+    {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+    }
+  );
+}
+
+/**
+ * Handle messages left through the widget's offline form
+ */
+async function handleOfflineMessage(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const url = new URL(request.url);
+  const site = getSite(env, url.searchParams.get('siteKey'));
+  if (!site) {
+    return new Response('Unknown site', {
+      status: 404,
+      headers: corsHeaders,
+    });
+  }
+  
+  const origin = request.headers.get('Origin');
+  if (!isOriginAllowedForSite(origin, site)) {
+    return new Response('Forbidden: Origin not allowed', {
+      status: 403,
+      headers: corsHeaders,
+    });
+  }
+  
+  // The message starts a session the visitor picks up with the returned ID
+  const sessionId = crypto.randomUUID();
+  const id = env.CHAT_SESSION.idFromName(`session:${sessionId}`);
+  const stub = env.CHAT_SESSION.get(id);
+  
+  url.searchParams.set('sessionId', sessionId);
+  url.searchParams.set('siteKey', site.key);
+  const response = await stub.fetch(new Request(url.toString(), request));
+  
+  return new Response(response.body, {
+    status: response.status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Handle agent presence reports from the Discord bot
+ */
+async function handlePresence(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || authHeader !== `Bearer ${env.BOT_RELAY_SECRET}`) {
+      return new Response('Unauthorized', {
+        status: 401,
+        headers: corsHeaders,
+      });
+    }
+    
+    const presence: AgentPresence = await request.json();
+    if (!presence?.roles || typeof presence.roles !== 'object') {
+      return new Response('Invalid presence format', {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+    
+    // The coordinator keeps the latest report and tells active sessions
+    const coordinatorId = env.CHAT_SESSION.idFromName('message-coordinator');
+    const coordinator = env.CHAT_SESSION.get(coordinatorId);
+    
+    const response = await coordinator.fetch(new Request('https://internal/presence/store', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ roles: presence.roles, updatedAt: Date.now() }),
+    }));
+    
+    if (!response.ok) {
+      throw new Error(`Presence update failed: ${response.status}`);
+    }
+    
+    return new Response(
+      JSON.stringify({ success: true }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error handling presence update:', error);
+    return new Response('Internal Server Error', {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
 }
 
 /**
@@ -110,7 +439,7 @@ async function handleRelayMessage(
     // Parse message
     const message: RelayMessage = await request.json();
     
-    if (!message.threadId || !message.message || !message.author) {
+    if (!isValidRelayMessage(message)) {
       return new Response('Invalid message format', {
         status: 400,
         headers: corsHeaders,
@@ -129,7 +458,26 @@ async function handleRelayMessage(
       body: JSON.stringify(message),
     });
     
-    await coordinator.fetch(relayRequest);
+    const response = await coordinator.fetch(relayRequest);
+    
+    // Let the bot relay retry messages that couldn't be delivered
+    if (response.status >= 500) {
+      return new Response('Relay delivery failed', {
+        status: 502,
+        headers: corsHeaders,
+      });
+    }
+    
+    // 404: no session registered the thread, 410: the session has ended
+    if (response.status === 404 || response.status === 410) {
+      return new Response(await response.text(), {
+        status: response.status,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      });
+    }
     
     return new Response(
       JSON.stringify({ success: true }),
@@ -150,12 +498,119 @@ async function handleRelayMessage(
   }
 }
 
+/**
+ * Handle Discord interactions (slash commands run by agents)
+ */
+async function handleInteraction(request: Request, env: Env): Promise<Response> {
+  const interaction = await verifyInteraction(request, env);
+  if (!interaction) {
+    return new Response('Invalid request signature', { status: 401 });
+  }
+  
+  // Discord checks the endpoint with a PING when it is configured
+  if (interaction.type === InteractionType.PING) {
+    return new Response(JSON.stringify({ type: InteractionResponseType.PONG }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  
+  // Buttons (like Claim chat) run as the command of the same name
+  const command = interaction.type === InteractionType.APPLICATION_COMMAND ||
+    interaction.type === InteractionType.MESSAGE_COMPONENT
+    ? toAgentCommand(interaction)
+    : null;
+  if (!command) {
+    return new Response('Unsupported interaction', { status: 400 });
+  }
+  
+  try {
+    // The coordinator resolves the thread to the session that owns it
+    const coordinatorId = env.CHAT_SESSION.idFromName('message-coordinator');
+    const coordinator = env.CHAT_SESSION.get(coordinatorId);
+    
+    const response = await coordinator.fetch(new Request('https://internal/command', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(command),
+    }));
+    
+    if (response.status === 404) {
+      return createInteractionResponse({
+        content: 'There is no active chat in this thread.',
+        ephemeral: true,
+      });
+    }
+    
+    if (!response.ok) {
+      throw new Error(`Command failed: ${response.status}`);
+    }
+    
+    const result: AgentCommandResult = await response.json();
+    return createInteractionResponse(result);
+  } catch (error) {
+    console.error('Error handling interaction:', error);
+    return createInteractionResponse({
+      content: 'Something went wrong running this command.',
+      ephemeral: true,
+    });
+  }
+}
+
+/**
+ * Register the agent slash commands with Discord
+ */
+async function handleRegisterCommands(request: Request, env: Env): Promise<Response> {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || authHeader !== `Bearer ${env.BOT_RELAY_SECRET}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+  
+  try {
+    const discord = new DiscordClient(env);
+    await discord.registerCommands(AGENT_COMMANDS);
+    
+    return new Response(
+      JSON.stringify({ success: true, commands: AGENT_COMMANDS.map(command => command.name) }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error registering commands:', error);
+    return new Response('Failed to register commands', { status: 500 });
+  }
+}
+
+/**
+ * Check that a relay message has the fields its type needs
+ */
+function isValidRelayMessage(message: RelayMessage): boolean {
+  if (!message.threadId) return false;
+  
+  switch (message.type || 'message') {
+    case 'typing':
+      return !!message.author;
+    case 'edit':
+    case 'delete':
+      return !!message.messageId;
+    default:
+      // Messages need text, files or embeds
+      return !!message.author && !!(
+        message.message
+        || message.attachments?.length
+        || message.embeds?.length
+      );
+  }
+}
+
 /**
  * Get CORS headers based on request origin
  */
 function getCorsHeaders(request: Request, env: Env): Record<string, string> {
   const origin = request.headers.get('Origin') || '';
-  const allowedOrigins = env.ALLOWED_ORIGINS.split(',').map(o => o.trim());
+  const allowedOrigins = getAllowedOrigins(env);
   
   const allowedOrigin = allowedOrigins.includes(origin)
     ? origin
@@ -170,13 +625,8 @@ function getCorsHeaders(request: Request, env: Env): Record<string, string> {
 }
 
 /**
- * Check if origin is allowed
+ * Get the origins of all sites
  */
-function isOriginAllowed(origin: string | null, env: Env): boolean {
-  if (!origin) return false;
-  
-  const allowedOrigins = env.ALLOWED_ORIGINS.split(',').map(o => o.trim());
-  
-  // Allow if origin is in the list or if wildcard is set
-  return allowedOrigins.includes(origin) || allowedOrigins.includes('*');
+function getAllowedOrigins(env: Env): string[] {
+  return [...getSites(env).values()].flatMap(site => site.allowedOrigins);
 }
@@ -0,0 +1,228 @@
+import {
+  Env,
+  ApplicationCommand,
+  AgentCommand,
+  AgentCommandResult,
+  AgentProfile,
+  DiscordInteraction,
+  DiscordUser,
+  DiscordMember,
+  InteractionResponseType,
+} from './types';
+
+const EPHEMERAL_FLAG = 1 << 6;
+const STRING_OPTION = 3;
+const USER_OPTION = 6;
+const GUILD_CONTEXT = 0;
+const MANAGE_THREADS = String(BigInt(1) << BigInt(34)); // Needed for agent commands unless admins change it
+const CDN_URL = 'https://cdn.discordapp.com';
+const MAX_TIMESTAMP_SKEW = 5 * 60; // Seconds an interaction may be old (or early), so captured ones can't be replayed
+
+// Button on the first message of each chat, runs like /claim
+export const CLAIM_BUTTON = {
+  type: 1, // Action row
+  components: [{ type: 2, style: 1, label: 'Claim chat', custom_id: 'claim' }],
+};
+
+// Slash commands available to agents in support threads
+export const AGENT_COMMANDS: ApplicationCommand[] = [
+  {
+    name: 'close',
+    description: 'End this chat and notify the visitor',
+    contexts: [GUILD_CONTEXT],
+    default_member_permissions: MANAGE_THREADS,
+  },
+  {
+    name: 'note',
+    description: 'Add an internal note (never shown to the visitor)',
+    options: [
+      { type: STRING_OPTION, name: 'text', description: 'Note text', required: true },
+    ],
+    contexts: [GUILD_CONTEXT],
+    default_member_permissions: MANAGE_THREADS,
+  },
+  {
+    name: 'info',
+    description: 'Show details of the visitor and session',
+    contexts: [GUILD_CONTEXT],
+    default_member_permissions: MANAGE_THREADS,
+  },
+  {
+    name: 'transcript',
+    description: 'Get a transcript of this chat',
+    options: [
+      {
+        type: STRING_OPTION,
+        name: 'format',
+        description: 'File format (default: txt)',
+        choices: [
+          { name: 'Text', value: 'txt' },
+          { name: 'JSON', value: 'json' },
+          { name: 'HTML', value: 'html' },
+        ],
+      },
+    ],
+    contexts: [GUILD_CONTEXT],
+    default_member_permissions: MANAGE_THREADS,
+  },
+  {
+    name: 'claim',
+    description: 'Take this chat (you answer the visitor from now on)',
+    contexts: [GUILD_CONTEXT],
+    default_member_permissions: MANAGE_THREADS,
+  },
+  {
+    name: 'assign',
+    description: 'Hand this chat over to another agent',
+    options: [
+      { type: USER_OPTION, name: 'agent', description: 'Agent to take over', required: true },
+    ],
+    contexts: [GUILD_CONTEXT],
+    default_member_permissions: MANAGE_THREADS,
+  },
+];
+
+/**
+ * Verify the Ed25519 signature Discord puts on interaction requests
+ * Returns the parsed interaction, or null if the signature is invalid or the timestamp stale
+ */
+export async function verifyInteraction(
+  request: Request,
+  env: Env
+): Promise<DiscordInteraction | null> {
+  const signature = request.headers.get('X-Signature-Ed25519');
+  const timestamp = request.headers.get('X-Signature-Timestamp');
+  if (!signature || !timestamp) {
+    return null;
+  }
+  
+  const age = Math.floor(Date.now() / 1000) - Number(timestamp);
+  if (!Number.isFinite(age) || Math.abs(age) > MAX_TIMESTAMP_SKEW) {
+    return null;
+  }
+  
+  const body = await request.text();
+  
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      hexToBytes(env.DISCORD_PUBLIC_KEY),
+      { name: 'Ed25519' },
+      false,
+      ['verify']
+    );
+    
+    const valid = await crypto.subtle.verify(
+      'Ed25519',
+      key,
+      hexToBytes(signature),
+      new TextEncoder().encode(timestamp + body)
+    );
+    
+    return valid ? JSON.parse(body) : null;
+  } catch (error) {
+    console.error('Interaction verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * Build the command to route to the session from a slash command or button interaction
+ */
+export function toAgentCommand(interaction: DiscordInteraction): AgentCommand | null {
+  const user = interaction.member?.user || interaction.user;
+  if (!interaction.data || !interaction.channel_id || !user) {
+    return null;
+  }
+  
+  const options: Record<string, string> = {};
+  for (const option of interaction.data.options || []) {
+    options[option.name] = String(option.value);
+  }
+  
+  const resolved = interaction.data.resolved;
+  const users: Record<string, AgentProfile> = {};
+  for (const [id, resolvedUser] of Object.entries(resolved?.users || {})) {
+    if (!resolvedUser.bot) {
+      users[id] = toAgentProfile(resolvedUser, resolved?.members?.[id], interaction.guild_id);
+    }
+  }
+  
+  // Buttons skip command permissions, so the session checks the agent's roles and permissions too
+  const permissions = BigInt(interaction.member?.permissions || '0');
+  
+  return {
+    name: interaction.data.name || interaction.data.custom_id || '',
+    threadId: interaction.channel_id,
+    agent: toAgentProfile(user, interaction.member, interaction.guild_id),
+    roles: interaction.member?.roles || [],
+    canManageThreads: (permissions & BigInt(MANAGE_THREADS)) !== BigInt(0),
+    options,
+    users,
+  };
+}
+
+/**
+ * Describe a Discord user as an agent, preferring their server nickname and avatar
+ */
+function toAgentProfile(user: DiscordUser, member?: DiscordMember, guildId?: string): AgentProfile {
+  let avatarUrl: string;
+  if (member?.avatar && guildId) {
+    avatarUrl = `${CDN_URL}/guilds/${guildId}/users/${user.id}/avatars/${member.avatar}.png`;
+  } else if (user.avatar) {
+    avatarUrl = `${CDN_URL}/avatars/${user.id}/${user.avatar}.png`;
+  } else {
+    // Default avatar picked from the user ID
+    avatarUrl = `${CDN_URL}/embed/avatars/${Number((BigInt(user.id) >> BigInt(22)) % BigInt(6))}.png`;
+  }
+  
+  return {
+    id: user.id,
+    name: member?.nick || user.global_name || user.username,
+    avatarUrl,
+  };
+}
+
+/**
+ * Build the interaction response for a command result
+ * Results with a file are sent as multipart with the file attached
+ */
+export function createInteractionResponse(result: AgentCommandResult): Response {
+  const payload = {
+    type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+    data: {
+      content: result.content,
+      flags: result.ephemeral ? EPHEMERAL_FLAG : undefined,
+      allowed_mentions: { parse: [] },
+      attachments: result.file ? [{ id: 0, filename: result.file.filename }] : undefined,
+    },
+  };
+  
+  if (!result.file) {
+    return new Response(JSON.stringify(payload), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  
+  const form = new FormData();
+  form.append('payload_json', JSON.stringify(payload));
+  form.append(
+    'files[0]',
+    new Blob([result.file.content], { type: result.file.contentType }),
+    result.file.filename
+  );
+  
+  return new Response(form, { status: 200 });
+}
+
+/**
+ * Decode a hex string (signatures)
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
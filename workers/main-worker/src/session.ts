@@ -4,11 +4,80 @@ import {
   ClientMessage,
   ServerMessage,
   InitData,
+  OfflineMessageData,
   MessageData,
+  FileMessageData,
   StoredMessage,
+  RelayMessage,
+  AckStatus,
+  SocketAttachment,
+  AgentCommand,
+  AgentCommandResult,
+  AgentProfile,
+  ClientMessageType,
+  ClosedBy,
+  ThreadStatus,
+  RateData,
+  HistoryRequestData,
+  VerifiedIdentity,
+  ThreadIndexEntry,
+  SiteConfig,
+  DepartmentConfig,
+  AgentPresence,
+  AvailabilityData,
+  AvailabilityStatus,
+  RateLimitState,
 } from './types';
-import { DiscordClient } from './discord';
+import { DiscordClient, escapeMarkdown } from './discord';
+import { normalizeEmail } from './thread-index';
+import { renderTranscript, isTranscriptFormat } from './transcript';
+import {
+  initHistory,
+  addMessage,
+  findMessage,
+  findMessageByClientId,
+  findLastAgentMessage,
+  updateMessage,
+  deleteMessage,
+  getHistoryPage,
+  countUndelivered,
+  takeUndelivered,
+  getAllMessages,
+  deleteSessionMessages,
+} from './history';
 import { validateTurnstile, getClientIP } from './turnstile';
+import { verifyIdentity } from './identity';
+import { getSite, getDepartment, DEFAULT_SITE_KEY } from './sites';
+import { getAvailability, loadAgentPresence } from './availability';
+import {
+  validateUpload,
+  storeUpload,
+  getUpload,
+  deleteUpload,
+  deleteSessionUploads,
+  sanitizeFilename,
+  MAX_UPLOAD_SIZE,
+} from './uploads';
+
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 60;
+const DEFAULT_OFFLINE_MESSAGE_DAYS = 7;
+const TYPING_INTERVAL = 8 * 1000; // Minimum gap between Discord typing triggers
+const MAX_MESSAGE_LENGTH = 2000;
+const DELIVERED_REACTION = '✅';
+const READ_REACTION = '👀';
+const RATING_WINDOW = 15 * 60 * 1000; // How long a closed chat waits for a rating
+const MAX_COMMENT_LENGTH = 500;
+const DEFAULT_MESSAGES_PER_MINUTE = 10;
+const RATE_WINDOW = 60 * 1000; // 1 minute
+
+// Greetings of new chats when no agent is online (the site's greeting is used otherwise)
+const UNAVAILABLE_GREETINGS: Record<Exclude<AvailabilityStatus, 'online'>, string> = {
+  away: "Connected to support. Our agents are away right now - we'll reply as soon as we can.",
+  offline: "Connected to support. We're closed right now - leave a message and we'll reply when we're back.",
+};
+
+// Frames a closed chat no longer accepts
+const CLOSED_CHAT_BLOCKED: ClientMessageType[] = ['message', 'file', 'edit', 'delete', 'typing'];
 
 /**
  * Durable Object for managing chat sessions
@@ -17,16 +86,33 @@ import { validateTurnstile, getClientIP } from './turnstile';
 export class ChatSession {
   private state: DurableObjectState;
   private env: Env;
-  private sessions: Map<WebSocket, SessionState>;
-  private discord: DiscordClient;
-  private rateLimits: Map<string, { count: number; resetAt: number }>;
+  private sessionCache: Map<string, SessionState>;
+  private sql: SqlStorage;
+  private discordClients: Map<string, DiscordClient>;
+  private filesInFlight: Set<string>; // Uploads being posted to Discord, by session and upload ID
+  private visitorRateLimits: Map<string, RateLimitState>; // Coordinator only, by visitor
   
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
-    this.sessions = new Map();
-    this.discord = new DiscordClient(env);
-    this.rateLimits = new Map();
+    // Rebuilt from storage on demand after hibernation
+    this.sessionCache = new Map();
+    this.sql = state.storage.sql;
+    this.discordClients = new Map();
+    this.filesInFlight = new Set();
+    // Windows last a minute, so losing them when the coordinator is evicted is harmless
+    this.visitorRateLimits = new Map();
+    
+    // Message history lives in SQLite rather than the session state
+    initHistory(this.sql);
+    
+    // Answer keep-alive pings without waking the object
+    this.state.setWebSocketAutoResponse(
+      new WebSocketRequestResponsePair(
+        JSON.stringify({ type: 'ping', data: {} }),
+        JSON.stringify({ type: 'pong', data: {} })
+      )
+    );
   }
   
   /**
@@ -38,7 +124,7 @@ export class ChatSession {
     // Handle register endpoint (coordinator receives session registrations)
     if (url.pathname === '/register' && request.method === 'POST') {
       try {
-        const data = await request.json();
+        const data: { threadId: string; doId: string } = await request.json();
         // Store the mapping: threadId -> DO ID
         await this.state.storage.put(`thread:${data.threadId}`, data.doId);
         return new Response(JSON.stringify({ success: true }), {
@@ -54,15 +140,184 @@ export class ChatSession {
       }
     }
     
-    // Handle relay message endpoint
+    // Handle unregister endpoint (coordinator drops mappings of expired sessions)
+    if (url.pathname === '/unregister' && request.method === 'POST') {
+      try {
+        const data: { threadId: string; doId: string } = await request.json();
+        // Only drop the mapping if a newer session hasn't taken over the thread
+        const current = await this.state.storage.get<string>(`thread:${data.threadId}`);
+        if (current === data.doId) {
+          await this.state.storage.delete(`thread:${data.threadId}`);
+        }
+        return new Response(JSON.stringify({ success: true }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in unregister endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to unregister' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle thread index lookup (coordinator keeps visitor email -> thread)
+    if (url.pathname === '/thread-index/lookup' && request.method === 'POST') {
+      try {
+        const data: { key: string } = await request.json();
+        const entry = await this.state.storage.get<ThreadIndexEntry>(`thread-index:${data.key}`);
+        if (!entry) {
+          return new Response(JSON.stringify({ error: 'Not indexed' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify(entry), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in thread index lookup endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to look up thread' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle thread index update (coordinator records the visitor's current thread)
+    if (url.pathname === '/thread-index/store' && request.method === 'POST') {
+      try {
+        const data: { key: string; threadId: string } = await request.json();
+        const entry: ThreadIndexEntry = { threadId: data.threadId, lastUsedAt: Date.now() };
+        await this.state.storage.put(`thread-index:${data.key}`, entry);
+        return new Response(JSON.stringify({ success: true }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in thread index store endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to store thread' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle rate limit checks of requests without a socket (coordinator counts per visitor)
+    if (url.pathname === '/rate-limit' && request.method === 'POST') {
+      try {
+        const data: { key: string; limit: number } = await request.json();
+        
+        // Drop finished windows so the map only holds visitors of the last minute
+        const now = Date.now();
+        for (const [key, window] of this.visitorRateLimits) {
+          if (now > window.windowStart + RATE_WINDOW) {
+            this.visitorRateLimits.delete(key);
+          }
+        }
+        
+        const rateLimit = this.countMessage(this.visitorRateLimits.get(data.key), data.limit);
+        if (rateLimit) {
+          this.visitorRateLimits.set(data.key, rateLimit);
+        }
+        return new Response(JSON.stringify({ allowed: !!rateLimit }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in rate limit endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to check rate limit' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle agent presence lookup (coordinator keeps the bot relay's last report)
+    if (url.pathname === '/presence/lookup' && request.method === 'POST') {
+      try {
+        const presence = await this.state.storage.get<AgentPresence>('agent-presence');
+        if (!presence) {
+          return new Response(JSON.stringify({ error: 'No presence reported' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify(presence), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in presence lookup endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to look up presence' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle agent presence update (coordinator stores it and tells the sessions)
+    if (url.pathname === '/presence/store' && request.method === 'POST') {
+      try {
+        const presence: AgentPresence = await request.json();
+        await this.state.storage.put('agent-presence', presence);
+        await this.broadcastPresence(presence);
+        return new Response(JSON.stringify({ success: true }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in presence store endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to store presence' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle availability endpoint (session receives presence changes from the coordinator)
+    if (url.pathname === '/availability' && request.method === 'POST') {
+      try {
+        const presence: AgentPresence = await request.json();
+        const stored = await this.state.storage.list<SessionState>({ prefix: 'session:' });
+        for (const { sessionId } of stored.values()) {
+          const session = await this.loadSession(sessionId);
+          if (session) {
+            await this.refreshAvailability(session, presence);
+          }
+        }
+        return new Response(JSON.stringify({ success: true }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in availability endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to update availability' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle relay message endpoint (coordinator routes to the thread's session)
     if (url.pathname === '/relay' && request.method === 'POST') {
       try {
-        const message = await request.json();
-        await this.receiveAgentMessage(
-          message.threadId,
-          message.message,
-          message.author
-        );
+        const message: RelayMessage = await request.json();
+        const result = await this.routeRelay(message);
+        if (result === 'unknown') {
+          return new Response(JSON.stringify({ error: 'Unknown thread' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        if (result === 'gone') {
+          return new Response(JSON.stringify({ error: 'Session gone' }), {
+            status: 410,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
         return new Response(JSON.stringify({ success: true }), {
           status: 200,
           headers: { 'Content-Type': 'application/json' },
@@ -76,31 +331,111 @@ export class ChatSession {
       }
     }
     
+    // Handle relay delivery endpoint (session receives from the coordinator)
+    if (url.pathname === '/deliver' && request.method === 'POST') {
+      try {
+        const message: RelayMessage = await request.json();
+        const delivered = await this.receiveRelay(message);
+        if (!delivered) {
+          return new Response(JSON.stringify({ error: 'Session gone' }), {
+            status: 410,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify({ success: true }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in deliver endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to deliver message' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle agent command endpoint (coordinator routes to the thread's session)
+    if (url.pathname === '/command' && request.method === 'POST') {
+      try {
+        const command: AgentCommand = await request.json();
+        const response = await this.forwardToSession(command.threadId, '/execute', command);
+        if (!response || response.status === 410) {
+          return new Response(JSON.stringify({ error: 'No active chat' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        return response;
+      } catch (error) {
+        console.error('Error in command endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to run command' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle command execution endpoint (session runs commands from the coordinator)
+    if (url.pathname === '/execute' && request.method === 'POST') {
+      try {
+        const command: AgentCommand = await request.json();
+        const result = await this.executeCommand(command);
+        if (!result) {
+          return new Response(JSON.stringify({ error: 'Session gone' }), {
+            status: 410,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify(result), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Error in execute endpoint:', error);
+        return new Response(JSON.stringify({ error: 'Failed to run command' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Handle file upload endpoint (visitor attachments)
+    if (url.pathname === '/upload' && request.method === 'POST') {
+      return this.handleUpload(request, url);
+    }
+    
+    // Handle transcript download endpoint (visitor copy of the chat)
+    if (url.pathname === '/transcript' && request.method === 'GET') {
+      return this.handleTranscript(url);
+    }
+    
+    // Handle offline message endpoint (offline form, no WebSocket)
+    if (url.pathname === '/offline' && request.method === 'POST') {
+      return this.handleOfflineMessage(request, url);
+    }
+    
     // Handle WebSocket upgrade
     const upgradeHeader = request.headers.get('Upgrade');
     if (upgradeHeader !== 'websocket') {
       return new Response('Expected Upgrade: websocket', { status: 426 });
     }
     
+    // Session ID and site resolved by the main worker when routing to this object
+    const sessionId = url.searchParams.get('sessionId');
+    if (!sessionId) {
+      return new Response('Missing session ID', { status: 400 });
+    }
+    const siteKey = url.searchParams.get('siteKey') || DEFAULT_SITE_KEY;
+    
     // Create WebSocket pair
     const pair = new WebSocketPair();
     const [client, server] = Object.values(pair);
     
-    // Accept WebSocket connection
-    server.accept();
-    
-    // Set up event handlers
-    server.addEventListener('message', (event: MessageEvent) => {
-      this.handleMessage(server, event.data as string);
-    });
-    
-    server.addEventListener('close', () => {
-      this.handleClose(server);
-    });
-    
-    server.addEventListener('error', () => {
-      this.handleClose(server);
-    });
+    // Accept as a hibernatable WebSocket - the runtime keeps the connection
+    // open while this object is evicted and calls the webSocket* handlers
+    this.state.acceptWebSocket(server);
+    this.setAttachment(server, { sessionId, siteKey, initialized: false });
     
     return new Response(null, {
       status: 101,
@@ -108,6 +443,32 @@ export class ChatSession {
     });
   }
   
+  /**
+   * Hibernation API handler for incoming WebSocket messages
+   */
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    if (typeof data !== 'string') {
+      this.sendError(ws, 'Invalid message format');
+      return;
+    }
+    
+    await this.handleMessage(ws, data);
+  }
+  
+  /**
+   * Hibernation API handler for closed WebSockets
+   */
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    this.handleClose(ws, code, reason);
+  }
+  
+  /**
+   * Hibernation API handler for WebSocket errors
+   */
+  async webSocketError(ws: WebSocket): Promise<void> {
+    this.handleClose(ws, 1011, 'WebSocket error');
+  }
+  
   /**
    * Handle incoming WebSocket messages
    */
@@ -115,13 +476,43 @@ export class ChatSession {
     try {
       const message: ClientMessage = JSON.parse(data);
       
+      // Closed chats only take a rating
+      if (CLOSED_CHAT_BLOCKED.includes(message.type) && (await this.getSocketSession(ws))?.closedAt) {
+        this.sendError(ws, 'This chat has ended', 'CHAT_CLOSED');
+        return;
+      }
+      
       switch (message.type) {
         case 'init':
-          await this.handleInit(ws, message.data);
+          await this.handleInit(ws, message.data, this.getAttachment(ws).sessionId);
           break;
         case 'message':
           await this.handleUserMessage(ws, message.data);
           break;
+        case 'file':
+          await this.handleFileMessage(ws, message.data);
+          break;
+        case 'edit':
+          await this.handleUserEdit(ws, message.data);
+          break;
+        case 'delete':
+          await this.handleUserDelete(ws);
+          break;
+        case 'typing':
+          await this.handleUserTyping(ws);
+          break;
+        case 'read':
+          await this.handleRead(ws);
+          break;
+        case 'close':
+          await this.handleUserClose(ws);
+          break;
+        case 'rate':
+          await this.handleRate(ws, message.data);
+          break;
+        case 'history':
+          await this.handleHistory(ws, message.data);
+          break;
         case 'ping':
           this.sendMessage(ws, { type: 'pong', data: {} });
           break;
@@ -137,8 +528,53 @@ export class ChatSession {
   /**
    * Handle session initialization
    */
-  private async handleInit(ws: WebSocket, data: InitData): Promise<void> {
+  private async handleInit(ws: WebSocket, data: InitData, sessionId: string): Promise<void> {
     try {
+      const site = getSite(this.env, this.getAttachment(ws).siteKey);
+      if (!site) {
+        this.sendError(ws, 'Unknown site');
+        ws.close();
+        return;
+      }
+      
+      // Department chosen in the pre-chat form or preset by the page
+      const department = data.department ? getDepartment(site, data.department) : null;
+      if (data.department && !department) {
+        this.sendError(ws, 'Unknown department');
+        ws.close();
+        return;
+      }
+      
+      // Visitors signed in on the host site are vouched for by its signature
+      const identity = data.identity
+        ? await verifyIdentity(data.identity, site.identitySecret || this.env.IDENTITY_SECRET)
+        : null;
+      if (data.identity && !identity) {
+        this.sendError(ws, 'Invalid identity', 'INVALID_IDENTITY');
+        ws.close();
+        return;
+      }
+      
+      // Reconnecting visitors are authenticated by their session ID
+      if (data.sessionId) {
+        const restored = data.sessionId === sessionId &&
+          await this.restoreSession(ws, sessionId, identity?.userId);
+        if (restored) {
+          return;
+        }
+        
+        // Reconnects happen on their own (page loads, other tabs), so only the visitor starts a new chat
+        this.sendError(ws, 'Session expired. Please start a new chat.', 'SESSION_EXPIRED');
+        ws.close();
+        return;
+      }
+      
+      // The identity replaces the pre-chat form and the CAPTCHA
+      if (identity) {
+        await this.createSession(ws, { ...data, name: identity.name, email: identity.email }, sessionId, site, department, identity);
+        return;
+      }
+      
       // Validate input
       if (!data.name || !data.email || !data.turnstileToken) {
         this.sendError(ws, 'Missing required fields');
@@ -154,23 +590,15 @@ export class ChatSession {
       }
       
       // Validate Turnstile token
-      const isValid = await validateTurnstile(data.turnstileToken, this.env);
+      const isValid = await validateTurnstile(data.turnstileToken, site.turnstileSecretKey);
       if (!isValid) {
         this.sendError(ws, 'Failed to verify CAPTCHA. Please try again.');
         ws.close();
         return;
       }
       
-      // Check for session restoration
-      if (data.sessionId) {
-        const restored = await this.restoreSession(ws, data.sessionId);
-        if (restored) {
-          return;
-        }
-      }
-      
       // Create new session
-      await this.createSession(ws, data);
+      await this.createSession(ws, data, sessionId, site, department);
     } catch (error) {
       console.error('Error in handleInit:', error);
       this.sendError(ws, 'Failed to initialize session');
@@ -181,13 +609,27 @@ export class ChatSession {
   /**
    * Create a new chat session
    */
-  private async createSession(ws: WebSocket, data: InitData): Promise<void> {
-    const sessionId = crypto.randomUUID();
+  private async createSession(
+    ws: WebSocket,
+    data: InitData,
+    sessionId: string,
+    site: SiteConfig,
+    department: DepartmentConfig | null,
+    identity?: VerifiedIdentity | null
+  ): Promise<void> {
+    // Replace a previous session the visitor can no longer restore
+    const previous = await this.loadSession(sessionId);
+    if (previous) {
+      await this.endSession(previous);
+    }
     
-    // Find or create Discord thread
-    const threadId = await this.discord.findOrCreateThread(
+    // Find or create Discord thread in the department's channel
+    const discord = this.getDiscord({ siteKey: site.key, department: department?.key });
+    const availability = await this.checkAvailability(site, department);
+    const threadId = await discord.findOrCreateThread(
       data.email,
-      data.name
+      data.name,
+      !!identity
     );
     
     // Create session state
@@ -196,88 +638,140 @@ export class ChatSession {
       email: data.email,
       name: data.name,
       threadId,
+      page: data.page,
+      siteKey: site.key,
+      department: department?.key,
+      userId: identity?.userId,
+      attributes: identity?.attributes,
       createdAt: Date.now(),
       lastActivity: Date.now(),
       messageCount: 0,
-      messageHistory: [],
+      availability: availability.status,
     };
     
-    this.sessions.set(ws, session);
-    await this.state.storage.put(`session:${sessionId}`, session);
+    await this.saveSession(session);
+    // Reused forum posts still carry the previous chat's status
+    await this.setStatus(session, 'new');
+    this.setAttachment(ws, { ...this.getAttachment(ws), initialized: true });
+    await this.scheduleExpiry(session);
     
     // Register this session with the coordinator
     try {
-      const coordinatorId = this.env.CHAT_SESSION.idFromName('message-coordinator');
-      const coordinator = this.env.CHAT_SESSION.get(coordinatorId);
-      
-      // Get this DO's ID as a string
-      const myId = this.state.id.toString();
-      
-      await coordinator.fetch(new Request(`https://internal/register`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ threadId, doId: myId }),
-      }));
+      await this.callCoordinator('/register', threadId);
     } catch (error) {
       console.error('Error registering with coordinator:', error);
     }
     
     // Send initial message to Discord
-    await this.discord.sendInitialMessage(
+    await discord.sendInitialMessage(
       threadId,
       data.name,
       data.email,
-      data.page || 'Unknown'
+      data.page || 'Unknown',
+      identity || undefined
     );
     
     // Send ready message to client
     this.sendMessage(ws, {
       type: 'ready',
       data: {
-        message: 'Connected to support. An agent will be with you shortly.',
+        message: availability.status === 'online'
+          ? site.greeting || 'Connected to support. An agent will be with you shortly.'
+          : UNAVAILABLE_GREETINGS[availability.status],
         sessionId,
+        restored: false,
+        availability,
+        sessionTimeout: this.getSessionTimeout(session),
       },
     });
   }
   
   /**
    * Restore an existing session
+   * Sessions of verified visitors only restore for the same user
    */
-  private async restoreSession(ws: WebSocket, sessionId: string): Promise<boolean> {
+  private async restoreSession(ws: WebSocket, sessionId: string, userId?: string): Promise<boolean> {
     try {
-      const session = await this.state.storage.get<SessionState>(`session:${sessionId}`);
+      // Shared with other tabs of the same visitor
+      const session = await this.loadSession(sessionId);
       if (!session) {
         return false;
       }
       
-      // Check if session is still valid (within 1 hour)
-      const SESSION_TIMEOUT = 60 * 60 * 1000; // 1 hour
-      if (Date.now() - session.lastActivity > SESSION_TIMEOUT) {
+      // Check if session is still valid
+      if (Date.now() - session.lastActivity > this.getSessionTimeout(session)) {
+        return false;
+      }
+      
+      // Someone else signed in (or out) on this browser
+      if (session.userId !== userId) {
+        return false;
+      }
+      
+      // Rated chats are over for the visitor, the session is only kept for the agents.
+      // Confirm the rating again in case the first confirmation was lost
+      if (session.rating) {
+        this.sendMessage(ws, { type: 'rated', data: {} });
+        ws.close(1000, 'Chat closed');
+        return true;
+      }
+      
+      // Session IDs only work on the site that issued them
+      if ((session.siteKey || DEFAULT_SITE_KEY) !== this.getAttachment(ws).siteKey) {
         return false;
       }
       
       // Update session
+      const site = getSite(this.env, session.siteKey);
+      const availability = site
+        ? await this.checkAvailability(site, getDepartment(site, session.department))
+        : undefined;
       session.lastActivity = Date.now();
-      this.sessions.set(ws, session);
-      await this.state.storage.put(`session:${sessionId}`, session);
+      session.availability = availability?.status;
+      this.setAttachment(ws, { ...this.getAttachment(ws), initialized: true });
       
       // Send ready message
       this.sendMessage(ws, {
         type: 'ready',
         data: {
-          message: 'Session restored. Welcome back!',
+          message: session.offline
+            ? 'Your message was sent. Replies from our team are shown here, even if you come back later.'
+            : 'Session restored. Welcome back!',
           sessionId: session.sessionId,
+          restored: true,
+          unread: countUndelivered(this.sql, sessionId),
+          availability,
+          offline: session.offline,
+          sessionTimeout: this.getSessionTimeout(session),
         },
       });
       
-      // Send message history
-      for (const msg of session.messageHistory) {
+      // Send the latest page of history - older pages are requested as the visitor scrolls up
+      this.sendMessage(ws, {
+        type: 'history',
+        data: getHistoryPage(this.sql, sessionId),
+      });
+      
+      // Flush replies that arrived while the visitor was away
+      for (const msg of takeUndelivered(this.sql, sessionId)) {
         this.sendMessage(ws, {
           type: 'message',
           data: msg,
         });
       }
       
+      if (session.agent) {
+        this.sendAgentJoined(ws, session.agent, { restored: true });
+      }
+      
+      // Still waiting for a rating - show the rating view again
+      if (session.closedAt) {
+        this.sendClosed(ws, session);
+      }
+      
+      await this.saveSession(session);
+      await this.scheduleExpiry(session);
+      
       return true;
     } catch (error) {
       console.error('Error restoring session:', error);
@@ -289,133 +783,1467 @@ export class ChatSession {
    * Handle user message
    */
   private async handleUserMessage(ws: WebSocket, data: MessageData): Promise<void> {
-    const session = this.sessions.get(ws);
+    const session = await this.getSocketSession(ws);
     if (!session) {
-      this.sendError(ws, 'Session not initialized');
+      this.rejectMessage(ws, data.clientId, 'Session not initialized');
+      return;
+    }
+    
+    // Already delivered - the acknowledgement was lost, so just repeat it
+    const duplicate = data.clientId
+      ? findMessageByClientId(this.sql, session.sessionId, data.clientId)
+      : undefined;
+    if (duplicate) {
+      this.sendAck(ws, data.clientId, 'delivered', duplicate.id);
       return;
     }
     
     // Validate message
     if (!data.message || typeof data.message !== 'string') {
-      this.sendError(ws, 'Invalid message');
+      this.rejectMessage(ws, data.clientId, 'Invalid message');
       return;
     }
     
     // Check message length
-    const MAX_MESSAGE_LENGTH = 2000;
     if (data.message.length > MAX_MESSAGE_LENGTH) {
-      this.sendError(ws, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`);
+      this.rejectMessage(ws, data.clientId, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`);
       return;
     }
     
     // Rate limiting
-    if (!this.checkRateLimit(session.sessionId)) {
-      this.sendError(ws, 'Rate limit exceeded. Please slow down.');
+    if (!this.checkRateLimit(ws)) {
+      this.rejectMessage(ws, data.clientId, 'Rate limit exceeded. Please slow down.');
       return;
     }
     
     try {
-      // Send to Discord
-      const formattedMessage = `**${session.name}:** ${data.message}`;
-      await this.discord.sendMessage(session.threadId, formattedMessage);
+      // Send to Discord as the visitor
+      const sent = await this.getDiscord(session).sendVisitorMessage(session.threadId, session, data.message);
       
       // Update session
       session.messageCount++;
       session.lastActivity = Date.now();
+      session.lastVisitorMessageId = sent.id;
+      this.endOfflineMode(session);
       
       // Store in history
       const storedMessage: StoredMessage = {
+        id: sent.id,
+        clientId: data.clientId,
+        direction: 'visitor',
         author: session.name,
         message: data.message,
         timestamp: Date.now(),
       };
-      session.messageHistory.push(storedMessage);
-      
-      // Keep only last 50 messages in history
-      if (session.messageHistory.length > 50) {
-        session.messageHistory = session.messageHistory.slice(-50);
-      }
+      addMessage(this.sql, session.sessionId, storedMessage);
       
-      await this.state.storage.put(`session:${session.sessionId}`, session);
+      await this.saveSession(session);
+      this.sendAck(ws, data.clientId, 'delivered', sent.id);
+      await this.markDelivered(session, sent.id);
+      await this.setStatus(session, 'waiting_on_agent');
     } catch (error) {
       console.error('Error sending message:', error);
-      this.sendError(ws, 'Failed to send message. Please try again.');
+      this.rejectMessage(ws, data.clientId, 'Failed to send message. Please try again.');
     }
   }
   
   /**
-   * Receive message from bot relay (agent response)
+   * Handle edit of the visitor's last message
    */
-  async receiveAgentMessage(threadId: string, message: string, author: string): Promise<void> {
-    // Check if this is the coordinator
-    const threadMapping = await this.state.storage.get<string>(`thread:${threadId}`);
+  private async handleUserEdit(ws: WebSocket, data: MessageData): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session) {
+      this.sendError(ws, 'Session not initialized');
+      return;
+    }
     
-    if (threadMapping) {
-      // This is the coordinator - forward to the actual session
-      try {
-        const sessionId = this.env.CHAT_SESSION.idFromString(threadMapping);
-        const sessionStub = this.env.CHAT_SESSION.get(sessionId);
-        
-        await sessionStub.fetch(new Request(`https://internal/relay`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ threadId, message, author }),
-        }));
-      } catch (error) {
-        console.error('Error forwarding to session:', error);
-      }
+    const messageId = session.lastVisitorMessageId;
+    if (!messageId) {
+      this.sendError(ws, 'No message to edit');
       return;
     }
     
-    // This is a regular session - deliver the message
-    for (const [ws, session] of this.sessions) {
-      if (session.threadId === threadId) {
-        const messageData = {
-          message,
-          author,
-          timestamp: Date.now(),
-        };
-        
-        this.sendMessage(ws, {
-          type: 'message',
-          data: messageData,
-        });
-        
-        // Store in history
-        session.messageHistory.push(messageData);
-        if (session.messageHistory.length > 50) {
-          session.messageHistory = session.messageHistory.slice(-50);
-        }
-        
-        session.lastActivity = Date.now();
-        await this.state.storage.put(`session:${session.sessionId}`, session);
+    // Validate message
+    if (!data.message || typeof data.message !== 'string') {
+      this.sendError(ws, 'Invalid message');
+      return;
+    }
+    
+    if (data.message.length > MAX_MESSAGE_LENGTH) {
+      this.sendError(ws, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`);
+      return;
+    }
+    
+    // Rate limiting
+    if (!this.checkRateLimit(ws)) {
+      this.sendError(ws, 'Rate limit exceeded. Please slow down.');
+      return;
+    }
+    
+    try {
+      // Mirror the edit to Discord
+      await this.getDiscord(session).editVisitorMessage(session.threadId, messageId, data.message);
+      
+      const stored = findMessage(this.sql, session.sessionId, messageId);
+      if (stored) {
+        updateMessage(this.sql, session.sessionId, { ...stored, message: data.message, edited: true });
+      }
+      session.lastActivity = Date.now();
+      await this.saveSession(session);
+      
+      for (const socket of this.getSockets(session.sessionId)) {
+        this.sendMessage(socket, {
+          type: 'message_edited',
+          data: { id: messageId, message: data.message, fromVisitor: true },
+        });
+      }
+    } catch (error) {
+      console.error('Error editing message:', error);
+      this.sendError(ws, 'Failed to edit message. Please try again.');
+    }
+  }
+  
+  /**
+   * Handle retraction of the visitor's last message
+   */
+  private async handleUserDelete(ws: WebSocket): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session) {
+      this.sendError(ws, 'Session not initialized');
+      return;
+    }
+    
+    const messageId = session.lastVisitorMessageId;
+    if (!messageId) {
+      this.sendError(ws, 'No message to delete');
+      return;
+    }
+    
+    try {
+      // Mirror the deletion to Discord
+      await this.getDiscord(session).deleteVisitorMessage(session.threadId, messageId);
+      
+      deleteMessage(this.sql, session.sessionId, messageId);
+      session.lastVisitorMessageId = undefined;
+      session.lastActivity = Date.now();
+      await this.saveSession(session);
+      
+      for (const socket of this.getSockets(session.sessionId)) {
+        this.sendMessage(socket, {
+          type: 'message_deleted',
+          data: { id: messageId, fromVisitor: true },
+        });
+      }
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      this.sendError(ws, 'Failed to delete message. Please try again.');
+    }
+  }
+  
+  /**
+   * Handle read receipt (the visitor has seen the conversation)
+   */
+  private async handleRead(ws: WebSocket): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session) {
+      return;
+    }
+    
+    // Mark the latest agent reply the visitor has seen
+    const lastAgentMessage = findLastAgentMessage(this.sql, session.sessionId);
+    if (!lastAgentMessage?.id || lastAgentMessage.id === session.lastReadMessageId) {
+      return;
+    }
+    
+    session.lastReadMessageId = lastAgentMessage.id;
+    await this.saveSession(session);
+    
+    try {
+      await this.getDiscord(session).addReaction(session.threadId, lastAgentMessage.id, READ_REACTION);
+    } catch (error) {
+      console.error('Error adding read reaction:', error);
+    }
+  }
+  
+  /**
+   * Mark a visitor message as delivered in Discord
+   */
+  private async markDelivered(session: SessionState, messageId: string): Promise<void> {
+    try {
+      await this.getDiscord(session).addReaction(session.threadId, messageId, DELIVERED_REACTION);
+    } catch (error) {
+      // The message itself went through, so this is not worth failing over
+      console.error('Error adding delivered reaction:', error);
+    }
+  }
+  
+  /**
+   * Handle visitor typing (show the typing indicator in the Discord thread)
+   */
+  private async handleUserTyping(ws: WebSocket): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session) {
+      return;
+    }
+    
+    // Discord shows the indicator for ~10 seconds, so don't trigger it more often
+    const now = Date.now();
+    const attachment = this.getAttachment(ws);
+    if (now - (attachment.lastTypingAt || 0) < TYPING_INTERVAL) {
+      return;
+    }
+    this.setAttachment(ws, { ...attachment, lastTypingAt: now });
+    
+    try {
+      await this.getDiscord(session).triggerTyping(session.threadId);
+    } catch (error) {
+      console.error('Error triggering typing indicator:', error);
+    }
+  }
+  
+  /**
+   * Handle file upload (stored until the client sends a file message)
+   */
+  private async handleUpload(request: Request, url: URL): Promise<Response> {
+    const jsonResponse = (body: object, status: number) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    
+    try {
+      // Uploads are authorized by a live session
+      const sessionId = url.searchParams.get('sessionId');
+      const session = sessionId
+        ? await this.loadSession(sessionId)
+        : undefined;
+      if (
+        !sessionId || !session || !this.isSessionOfSite(session, url) ||
+        Date.now() - session.lastActivity > this.getSessionTimeout(session)
+      ) {
+        return jsonResponse({ error: 'Session not found' }, 401);
+      }
+      
+      const contentType = (request.headers.get('Content-Type') || '').split(';')[0].trim();
+      
+      // Reject oversized bodies before reading them
+      const declaredSize = parseInt(request.headers.get('Content-Length') || '0', 10);
+      if (declaredSize > MAX_UPLOAD_SIZE) {
+        return jsonResponse({ error: validateUpload(contentType, declaredSize) }, 413);
+      }
+      
+      const data = await request.arrayBuffer();
+      
+      const validationError = validateUpload(contentType, data.byteLength);
+      if (validationError) {
+        return jsonResponse({ error: validationError }, 400);
       }
+      
+      const filename = sanitizeFilename(url.searchParams.get('filename') || '');
+      const upload = await storeUpload(this.env, sessionId, filename, contentType, data);
+      
+      return jsonResponse(upload, 200);
+    } catch (error) {
+      console.error('Error in upload endpoint:', error);
+      return jsonResponse({ error: 'Failed to upload file' }, 500);
+    }
+  }
+  
+  /**
+   * Handle a message left while no agent is available
+   * Starts a session without a socket, so agent replies wait for the visitor to come back
+   */
+  private async handleOfflineMessage(request: Request, url: URL): Promise<Response> {
+    const jsonResponse = (body: object, status: number) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    
+    try {
+      // Session ID and site resolved by the main worker when routing to this object
+      const sessionId = url.searchParams.get('sessionId');
+      const site = getSite(this.env, url.searchParams.get('siteKey'));
+      if (!sessionId || !site) {
+        return jsonResponse({ error: 'Unknown site' }, 404);
+      }
+      
+      const data: OfflineMessageData = await request.json();
+      
+      const department = data.department ? getDepartment(site, data.department) : null;
+      if (data.department && !department) {
+        return jsonResponse({ error: 'Unknown department' }, 400);
+      }
+      
+      const message = typeof data.message === 'string' ? data.message.trim() : '';
+      if (!message) {
+        return jsonResponse({ error: 'Message is required' }, 400);
+      }
+      if (message.length > MAX_MESSAGE_LENGTH) {
+        return jsonResponse({ error: `Message too long (max ${MAX_MESSAGE_LENGTH} characters)` }, 400);
+      }
+      
+      // Signed-in visitors are vouched for by the host site, everyone else passes the CAPTCHA
+      const identity = data.identity
+        ? await verifyIdentity(data.identity, site.identitySecret || this.env.IDENTITY_SECRET)
+        : null;
+      if (data.identity && !identity) {
+        return jsonResponse({ error: 'Invalid identity' }, 401);
+      }
+      
+      const name = identity?.name || (data.name || '').trim();
+      const email = identity?.email || (data.email || '').trim();
+      if (!identity) {
+        if (!name || !email || !data.turnstileToken) {
+          return jsonResponse({ error: 'Missing required fields' }, 400);
+        }
+        
+        if (!this.isValidEmail(email)) {
+          return jsonResponse({ error: 'Invalid email format' }, 400);
+        }
+        
+        const isValid = await validateTurnstile(data.turnstileToken, site.turnstileSecretKey, getClientIP(request));
+        if (!isValid) {
+          return jsonResponse({ error: 'Failed to verify CAPTCHA. Please try again.' }, 403);
+        }
+      }
+      
+      // Each offline message starts a new session, so the live message limit is counted per visitor
+      const visitorKey = `${site.key}:${identity ? `user:${identity.userId}` : normalizeEmail(email)}`;
+      if (!(await this.checkVisitorRateLimit(visitorKey, site))) {
+        return jsonResponse({ error: 'Rate limit exceeded. Please slow down.' }, 429);
+      }
+      
+      // Same thread as a live chat would use
+      const discord = this.getDiscord({ siteKey: site.key, department: department?.key });
+      const threadId = await discord.findOrCreateThread(email, name, !!identity);
+      
+      const session: SessionState = {
+        sessionId,
+        email,
+        name,
+        threadId,
+        page: data.page,
+        siteKey: site.key,
+        department: department?.key,
+        userId: identity?.userId,
+        attributes: identity?.attributes,
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        messageCount: 1,
+        offline: true,
+      };
+      
+      await discord.sendOfflineTicket(threadId, name, email, data.page || 'Unknown', identity || undefined);
+      const sent = await discord.sendVisitorMessage(threadId, session, message);
+      
+      addMessage(this.sql, sessionId, {
+        id: sent.id,
+        direction: 'visitor',
+        author: name,
+        message,
+        timestamp: Date.now(),
+      });
+      
+      await this.saveSession(session);
+      await this.scheduleExpiry(session);
+      
+      // Agent replies reach this session through the coordinator like live ones
+      try {
+        await this.callCoordinator('/register', threadId);
+      } catch (error) {
+        console.error('Error registering with coordinator:', error);
+      }
+      
+      await this.setStatus(session, 'waiting_on_agent');
+      
+      return jsonResponse({ success: true, sessionId }, 200);
+    } catch (error) {
+      console.error('Error in offline message endpoint:', error);
+      return jsonResponse({ error: 'Failed to send message. Please try again.' }, 500);
+    }
+  }
+  
+  /**
+   * Session IDs only work on the site that issued them (the worker checked the origin for that site)
+   */
+  private isSessionOfSite(session: SessionState, url: URL): boolean {
+    return (session.siteKey || DEFAULT_SITE_KEY) === (url.searchParams.get('siteKey') || DEFAULT_SITE_KEY);
+  }
+  
+  /**
+   * Handle a transcript download, authorized by the session ID like uploads
+   */
+  private async handleTranscript(url: URL): Promise<Response> {
+    const jsonResponse = (body: object, status: number) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    
+    try {
+      const sessionId = url.searchParams.get('sessionId');
+      const session = sessionId
+        ? await this.loadSession(sessionId)
+        : undefined;
+      if (
+        !sessionId || !session || !this.isSessionOfSite(session, url) ||
+        Date.now() - session.lastActivity > this.getSessionTimeout(session)
+      ) {
+        return jsonResponse({ error: 'Session not found' }, 401);
+      }
+      
+      const format = url.searchParams.get('format') || 'txt';
+      if (!isTranscriptFormat(format)) {
+        return jsonResponse({ error: 'Unknown transcript format' }, 400);
+      }
+      
+      const transcript = renderTranscript(session, getAllMessages(this.sql, sessionId), format);
+      return new Response(transcript.content, {
+        status: 200,
+        headers: {
+          'Content-Type': transcript.contentType,
+          'Content-Disposition': `attachment; filename="${transcript.filename}"`,
+        },
+      });
+    } catch (error) {
+      console.error('Error rendering transcript:', error);
+      return jsonResponse({ error: 'Failed to render transcript' }, 500);
+    }
+  }
+  
+  /**
+   * Handle file message (post a previously uploaded file to Discord)
+   */
+  private async handleFileMessage(ws: WebSocket, data: FileMessageData): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session) {
+      this.rejectMessage(ws, data.clientId, 'Session not initialized');
+      return;
+    }
+    
+    if (!data.uploadId || typeof data.uploadId !== 'string') {
+      this.rejectMessage(ws, data.clientId, 'Invalid file');
+      return;
+    }
+    
+    // Already delivered - the acknowledgement was lost, so just repeat it
+    const duplicate = data.clientId
+      ? findMessageByClientId(this.sql, session.sessionId, data.clientId)
+      : undefined;
+    if (duplicate) {
+      this.sendAck(ws, data.clientId, 'delivered', duplicate.id);
+      return;
+    }
+    
+    // Retried while the first attempt is still posting - that one acknowledges it
+    const inFlightKey = `${session.sessionId}:${data.uploadId}`;
+    if (this.filesInFlight.has(inFlightKey)) {
+      return;
+    }
+    
+    // Rate limiting
+    if (!this.checkRateLimit(ws)) {
+      this.rejectMessage(ws, data.clientId, 'Rate limit exceeded. Please slow down.');
+      return;
+    }
+    
+    this.filesInFlight.add(inFlightKey);
+    try {
+      const upload = await getUpload(this.env, session.sessionId, data.uploadId);
+      if (!upload) {
+        this.rejectMessage(ws, data.clientId, 'File not found. Please upload it again.');
+        return;
+      }
+      
+      // Send to Discord as the visitor
+      const sent = await this.getDiscord(session).sendVisitorFile(
+        session.threadId,
+        session,
+        {
+          filename: upload.info.filename,
+          contentType: upload.info.contentType,
+          data: upload.data,
+        }
+      );
+      await deleteUpload(this.env, session.sessionId, data.uploadId);
+      
+      // Update session
+      session.messageCount++;
+      session.lastActivity = Date.now();
+      session.lastVisitorMessageId = undefined; // Only text messages can be edited
+      this.endOfflineMode(session);
+      
+      // Store in history with the Discord-hosted copy of the file
+      addMessage(this.sql, session.sessionId, {
+        id: sent.id,
+        clientId: data.clientId,
+        direction: 'visitor',
+        author: session.name,
+        message: '',
+        timestamp: Date.now(),
+        attachments: (sent.attachments || []).map(attachment => ({
+          url: attachment.url,
+          filename: attachment.filename,
+          contentType: attachment.content_type,
+          size: attachment.size,
+          width: attachment.width ?? undefined,
+          height: attachment.height ?? undefined,
+        })),
+      });
+      
+      await this.saveSession(session);
+      this.sendAck(ws, data.clientId, 'delivered', sent.id);
+      await this.markDelivered(session, sent.id);
+      await this.setStatus(session, 'waiting_on_agent');
+    } catch (error) {
+      console.error('Error sending file:', error);
+      this.rejectMessage(ws, data.clientId, 'Failed to send file. Please try again.');
+    } finally {
+      this.filesInFlight.delete(inFlightKey);
+    }
+  }
+  
+  /**
+   * Route a bot relay message to the session that owns its thread (coordinator)
+   * Returns 'unknown' for threads no session registered and 'gone' when the
+   * session ended without unregistering
+   */
+  private async routeRelay(relay: RelayMessage): Promise<'delivered' | 'unknown' | 'gone'> {
+    const response = await this.forwardToSession(relay.threadId, '/deliver', relay);
+    if (!response) {
+      return 'unknown';
+    }
+    
+    if (response.status === 410) {
+      return 'gone';
+    }
+    
+    if (!response.ok) {
+      // Surface the failure so the bot relay retries
+      throw new Error(`Session failed to receive relay: ${response.status}`);
+    }
+    
+    return 'delivered';
+  }
+  
+  /**
+   * Forward a request to the session that registered a thread (coordinator)
+   * Returns null when no session registered the thread
+   */
+  private async forwardToSession(threadId: string, path: string, body: unknown): Promise<Response | null> {
+    const threadMapping = await this.state.storage.get<string>(`thread:${threadId}`);
+    if (!threadMapping) {
+      return null;
+    }
+    
+    const sessionId = this.env.CHAT_SESSION.idFromString(threadMapping);
+    const sessionStub = this.env.CHAT_SESSION.get(sessionId);
+    
+    const response = await sessionStub.fetch(new Request(`https://internal${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }));
+    
+    // The session expired without unregistering - drop the stale mapping
+    if (response.status === 410) {
+      await this.state.storage.delete(`thread:${threadId}`);
+    }
+    
+    return response;
+  }
+  
+  /**
+   * Run an agent slash command against the session that owns the thread
+   * Returns null when no session in this object belongs to the thread
+   */
+  private async executeCommand(command: AgentCommand): Promise<AgentCommandResult | null> {
+    const session = await this.findSessionByThread(command.threadId);
+    if (!session) {
+      return null;
+    }
+    
+    if (!this.isSupportAgent(session, command)) {
+      return { content: 'Only support agents can manage chats.', ephemeral: true };
+    }
+    
+    switch (command.name) {
+      case 'close':
+        if (session.closedAt) {
+          return { content: 'This chat is already closed.', ephemeral: true };
+        }
+        await this.closeChat(session, 'agent');
+        return {
+          content: `🔒 **Chat closed** by ${escapeMarkdown(command.agent.name)}. The visitor has been asked for a rating.`,
+        };
+      case 'note':
+        return this.addNote(session, command);
+      case 'info':
+        return this.describeSession(session);
+      case 'claim':
+        return this.claimChat(session, command.agent);
+      case 'assign':
+        return this.assignChat(session, command);
+      case 'transcript': {
+        const format = command.options.format || 'txt';
+        if (!isTranscriptFormat(format)) {
+          return { content: `Unknown transcript format: ${format}`, ephemeral: true };
+        }
+        return {
+          content: `Transcript of the chat with ${escapeMarkdown(session.name)}`,
+          ephemeral: true,
+          file: renderTranscript(session, getAllMessages(this.sql, session.sessionId), format, true),
+        };
+      }
+      default:
+        return { content: `Unknown command: ${command.name}`, ephemeral: true };
+    }
+  }
+  
+  /**
+   * Check that the agent is in the support role of the chat's site or department
+   * Without a support role, agents need the permission the commands require by default
+   */
+  private isSupportAgent(session: SessionState, command: AgentCommand): boolean {
+    const site = getSite(this.env, session.siteKey);
+    const supportRoles = [site?.supportRoleId, getDepartment(site, session.department)?.roleId]
+      .filter((roleId): roleId is string => !!roleId);
+    
+    return supportRoles.length > 0
+      ? command.roles.some(roleId => supportRoles.includes(roleId))
+      : command.canManageThreads;
+  }
+  
+  /**
+   * Handle the visitor ending the chat
+   */
+  private async handleUserClose(ws: WebSocket): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session) {
+      this.sendError(ws, 'Session not initialized');
+      return;
+    }
+    
+    if (session.closedAt) {
+      this.sendClosed(ws, session);
+      return;
+    }
+    
+    await this.closeChat(session, 'visitor');
+    
+    try {
+      await this.getDiscord(session).sendMessage(session.threadId, '🔒 **Chat ended by the visitor**');
+    } catch (error) {
+      console.error('Error notifying Discord of chat close:', error);
+    }
+  }
+  
+  /**
+   * Close a chat and ask the visitor for a rating
+   * The session is kept for the rating window, then the thread is archived
+   */
+  private async closeChat(session: SessionState, closedBy: ClosedBy): Promise<void> {
+    session.closedAt = Date.now();
+    session.closedBy = closedBy;
+    await this.saveSession(session);
+    await this.setStatus(session, 'closed');
+    await this.scheduleExpiry(session);
+    
+    for (const ws of this.getSockets(session.sessionId)) {
+      this.sendClosed(ws, session);
+    }
+  }
+  
+  /**
+   * Handle the visitor's satisfaction rating of a closed chat
+   */
+  private async handleRate(ws: WebSocket, data: RateData): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session || !session.closedAt) {
+      this.sendError(ws, 'Only closed chats can be rated');
+      return;
+    }
+    
+    // Rated from another tab already
+    if (session.rating) {
+      this.sendMessage(ws, { type: 'rated', data: {} });
+      return;
+    }
+    
+    const validScore = data?.scale === 'thumbs'
+      ? data.score === 0 || data.score === 1
+      : data?.scale === 'stars' && Number.isInteger(data.score) && data.score >= 1 && data.score <= 5;
+    if (!validScore) {
+      this.sendError(ws, 'Invalid rating');
+      return;
+    }
+    
+    const comment = typeof data.comment === 'string'
+      ? data.comment.trim().slice(0, MAX_COMMENT_LENGTH)
+      : '';
+    
+    session.rating = {
+      score: data.score,
+      scale: data.scale,
+      comment: comment || undefined,
+      timestamp: Date.now(),
+    };
+    await this.saveSession(session);
+    
+    try {
+      await this.getDiscord(session).sendRating(session.threadId, session.rating);
+    } catch (error) {
+      console.error('Error posting rating to Discord:', error);
+    }
+    
+    // Tabs forget the chat once the rating is confirmed
+    for (const socket of this.getSockets(session.sessionId)) {
+      this.sendMessage(socket, { type: 'rated', data: {} });
+    }
+    
+    // The rated session is kept until the rating window is over, then the alarm finishes it
+    await this.leaveChat(session);
+  }
+  
+  /**
+   * Handle a request for older messages as the visitor scrolls up
+   */
+  private async handleHistory(ws: WebSocket, data: HistoryRequestData): Promise<void> {
+    const session = await this.getSocketSession(ws);
+    if (!session) {
+      this.sendError(ws, 'Session not initialized');
+      return;
+    }
+    
+    const before = data?.before;
+    if (before !== undefined && !Number.isInteger(before)) {
+      this.sendError(ws, 'Invalid history cursor');
+      return;
+    }
+    
+    this.sendMessage(ws, {
+      type: 'history',
+      data: getHistoryPage(this.sql, session.sessionId, before),
+    });
+  }
+  
+  /**
+   * Archive the thread of a closed chat and delete the session
+   */
+  private async finishChat(session: SessionState): Promise<void> {
+    this.disconnectVisitor(session);
+    await this.endSession(session);
+    await this.archiveThread(session);
+  }
+  
+  /**
+   * Disconnect the visitor from a rated chat and archive the thread, keeping the session
+   */
+  private async leaveChat(session: SessionState): Promise<void> {
+    this.disconnectVisitor(session);
+    await this.archiveThread(session);
+  }
+  
+  /**
+   * Close every tab of the visitor
+   */
+  private disconnectVisitor(session: SessionState): void {
+    for (const ws of this.getSockets(session.sessionId)) {
+      try {
+        ws.close(1000, 'Chat closed');
+      } catch (error) {
+        // Already closed
+      }
+    }
+  }
+  
+  /**
+   * Archive the session's thread
+   */
+  private async archiveThread(session: SessionState): Promise<void> {
+    try {
+      await this.getDiscord(session).archiveThread(session.threadId);
+    } catch (error) {
+      console.error('Error archiving thread:', error);
+    }
+  }
+  
+  /**
+   * Add an internal note - it is shown in the thread but never relayed
+   */
+  private async addNote(session: SessionState, command: AgentCommand): Promise<AgentCommandResult> {
+    const text = (command.options.text || '').trim();
+    if (!text) {
+      return { content: 'Note text is required.', ephemeral: true };
+    }
+    
+    session.notes = [
+      ...(session.notes || []),
+      { author: command.agent.name, text, timestamp: Date.now() },
+    ];
+    await this.saveSession(session);
+    
+    return { content: `📝 **Note** from ${escapeMarkdown(command.agent.name)}: ${text}` };
+  }
+  
+  /**
+   * Give an unclaimed chat to the agent who ran /claim or clicked the button
+   */
+  private async claimChat(session: SessionState, agent: AgentProfile): Promise<AgentCommandResult> {
+    if (session.agent?.id === agent.id) {
+      return { content: 'You already own this chat.', ephemeral: true };
+    }
+    if (session.agent) {
+      return {
+        content: `This chat belongs to ${escapeMarkdown(session.agent.name)}. They can hand it over with /assign.`,
+        ephemeral: true,
+      };
+    }
+    
+    await this.setAgent(session, agent);
+    return { content: `🙋 **${escapeMarkdown(agent.name)}** claimed this chat.` };
+  }
+  
+  /**
+   * Hand a chat over to the agent picked in /assign
+   */
+  private async assignChat(session: SessionState, command: AgentCommand): Promise<AgentCommandResult> {
+    const agent = command.users[command.options.agent];
+    if (!agent) {
+      return { content: 'Chats can only be assigned to agents, not bots.', ephemeral: true };
+    }
+    if (session.agent?.id === agent.id) {
+      return { content: `This chat already belongs to ${escapeMarkdown(agent.name)}.`, ephemeral: true };
+    }
+    
+    const previous = session.agent;
+    await this.setAgent(session, agent);
+    
+    return {
+      content: previous
+        ? `🔁 **Chat handed over** from ${escapeMarkdown(previous.name)} to ${escapeMarkdown(agent.name)} by ${escapeMarkdown(command.agent.name)}.`
+        : `🔁 **Chat assigned** to ${escapeMarkdown(agent.name)} by ${escapeMarkdown(command.agent.name)}.`,
+    };
+  }
+  
+  /**
+   * Make an agent the owner of a chat and show them to the visitor
+   */
+  private async setAgent(session: SessionState, agent: AgentProfile): Promise<void> {
+    const handedOver = !!session.agent;
+    session.agent = agent;
+    await this.saveSession(session);
+    
+    for (const ws of this.getSockets(session.sessionId)) {
+      this.sendAgentJoined(ws, agent, { handedOver });
+    }
+  }
+  
+  /**
+   * Tell the visitor which agent is answering
+   */
+  private sendAgentJoined(
+    ws: WebSocket,
+    agent: AgentProfile,
+    options: { handedOver?: boolean; restored?: boolean }
+  ): void {
+    this.sendMessage(ws, {
+      type: 'agent_joined',
+      data: { name: agent.name, avatarUrl: agent.avatarUrl, ...options },
+    });
+  }
+  
+  /**
+   * Give an unclaimed chat to the agent who replied first,
+   * and remind others who reply that someone else owns it
+   */
+  private async trackAgentReply(session: SessionState, relay: RelayMessage): Promise<void> {
+    if (!relay.authorId) {
+      return;
+    }
+    
+    if (!session.agent) {
+      await this.setAgent(session, { id: relay.authorId, name: relay.author, avatarUrl: relay.authorAvatar });
+    } else if (session.agent.id !== relay.authorId && session.lastAgentId !== relay.authorId) {
+      // Once per run of replies, not on every message
+      try {
+        await this.getDiscord(session).sendMessage(
+          session.threadId,
+          `⚠️ ${escapeMarkdown(relay.author)} replied, but this chat belongs to ${escapeMarkdown(session.agent.name)}. ` +
+            `Use /assign to take it over.`
+        );
+      } catch (error) {
+        console.error('Error posting owner notice:', error);
+      }
+    }
+    
+    session.lastAgentId = relay.authorId;
+  }
+  
+  /**
+   * Summarize the visitor and session for the agent
+   */
+  private describeSession(session: SessionState): AgentCommandResult {
+    const tabs = this.getSockets(session.sessionId).length;
+    const connection = tabs > 0
+      ? `connected (${tabs} ${tabs === 1 ? 'tab' : 'tabs'})`
+      : 'disconnected';
+    
+    const site = getSite(this.env, session.siteKey);
+    const department = getDepartment(site, session.department);
+    const content = `**Chat Session**\n` +
+      (site?.name ? `🌐 **Site:** ${escapeMarkdown(site.name)}\n` : '') +
+      (department ? `🏢 **Department:** ${escapeMarkdown(department.name)}\n` : '') +
+      `👤 **Name:** ${escapeMarkdown(session.name)}\n` +
+      `📧 **Email:** ${escapeMarkdown(session.email)}${session.userId ? ' ✅' : ' (unverified)'}\n` +
+      (session.userId ? `🔐 **User ID:** ${escapeMarkdown(session.userId)}\n` : '') +
+      `📄 **Page:** ${escapeMarkdown(session.page || 'unknown')}\n` +
+      `🙋 **Agent:** ${session.agent ? escapeMarkdown(session.agent.name) : 'unclaimed'}\n` +
+      `🔌 **Connection:** ${connection}\n` +
+      `💬 **Visitor messages:** ${session.messageCount}\n` +
+      `📝 **Notes:** ${session.notes?.length || 0}\n` +
+      `⏰ **Started:** <t:${Math.floor(session.createdAt / 1000)}:R>\n` +
+      `🕐 **Last activity:** <t:${Math.floor(session.lastActivity / 1000)}:R>`;
+    
+    return { content, ephemeral: true };
+  }
+  
+  /**
+   * Receive message from bot relay (agent response or typing)
+   * Returns false when no session in this object belongs to the thread
+   */
+  private async receiveRelay(relay: RelayMessage): Promise<boolean> {
+    switch (relay.type) {
+      case 'typing':
+        return this.receiveAgentTyping(relay);
+      case 'edit':
+        return this.receiveAgentEdit(relay);
+      case 'delete':
+        return this.receiveAgentDelete(relay);
+      default:
+        return this.receiveAgentMessage(relay);
+    }
+  }
+  
+  /**
+   * Receive edit of an agent message
+   */
+  private async receiveAgentEdit(relay: RelayMessage): Promise<boolean> {
+    const session = await this.findSessionByThread(relay.threadId);
+    if (!session) {
+      return false;
+    }
+    
+    const stored = relay.messageId ? findMessage(this.sql, session.sessionId, relay.messageId) : undefined;
+    if (!stored) {
+      // Not a message the visitor has seen
+      return true;
+    }
+    
+    stored.message = relay.message;
+    stored.edited = true;
+    if (relay.attachments) {
+      stored.attachments = relay.attachments.length ? relay.attachments : undefined;
+    }
+    if (relay.embeds) {
+      stored.embeds = relay.embeds.length ? relay.embeds : undefined;
+    }
+    updateMessage(this.sql, session.sessionId, stored);
+    
+    for (const ws of this.getSockets(session.sessionId)) {
+      this.sendMessage(ws, {
+        type: 'message_edited',
+        data: {
+          id: stored.id,
+          message: stored.message,
+          attachments: stored.attachments,
+          embeds: stored.embeds,
+        },
+      });
     }
+    
+    return true;
   }
   
   /**
-   * Check rate limit for a session
+   * Receive deletion of an agent message
    */
-  private checkRateLimit(sessionId: string): boolean {
-    const now = Date.now();
-    const limit = this.rateLimits.get(sessionId);
+  private async receiveAgentDelete(relay: RelayMessage): Promise<boolean> {
+    const session = await this.findSessionByThread(relay.threadId);
+    if (!session) {
+      return false;
+    }
+    
+    if (!relay.messageId || !deleteMessage(this.sql, session.sessionId, relay.messageId)) {
+      return true;
+    }
+    
+    for (const ws of this.getSockets(session.sessionId)) {
+      this.sendMessage(ws, {
+        type: 'message_deleted',
+        data: { id: relay.messageId },
+      });
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Receive agent typing notification
+   */
+  private async receiveAgentTyping(relay: RelayMessage): Promise<boolean> {
+    const session = await this.findSessionByThread(relay.threadId);
+    if (!session) {
+      return false;
+    }
     
-    const RATE_LIMIT = 10; // messages
-    const RATE_WINDOW = 60 * 1000; // 1 minute
+    // Typing is transient - only connected visitors see it
+    for (const ws of this.getSockets(session.sessionId)) {
+      this.sendMessage(ws, {
+        type: 'typing',
+        data: { author: relay.author },
+      });
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Receive agent message
+   */
+  private async receiveAgentMessage(relay: RelayMessage): Promise<boolean> {
+    // Make sure the session still exists
+    const session = await this.findSessionByThread(relay.threadId);
+    if (!session) {
+      return false;
+    }
     
-    if (!limit || now > limit.resetAt) {
-      this.rateLimits.set(sessionId, { count: 1, resetAt: now + RATE_WINDOW });
+    // The bot relay retries deliveries it couldn't confirm - don't show them twice
+    if (relay.messageId && findMessage(this.sql, session.sessionId, relay.messageId)) {
       return true;
     }
     
-    if (limit.count >= RATE_LIMIT) {
+    // Before the message, so the visitor sees who joined first
+    await this.trackAgentReply(session, relay);
+    
+    const messageData: StoredMessage = {
+      id: relay.messageId,
+      direction: 'agent',
+      message: relay.message,
+      author: relay.author,
+      timestamp: Date.now(),
+      attachments: relay.attachments?.length ? relay.attachments : undefined,
+      embeds: relay.embeds?.length ? relay.embeds : undefined,
+    };
+    
+    const sockets = this.getSockets(session.sessionId);
+    if (sockets.length > 0) {
+      // Deliver the message
+      for (const ws of sockets) {
+        this.sendMessage(ws, {
+          type: 'message',
+          data: messageData,
+        });
+      }
+      addMessage(this.sql, session.sessionId, messageData);
+    } else {
+      // Visitor is away - keep the reply until they reconnect
+      addMessage(this.sql, session.sessionId, messageData, false);
+    }
+    
+    session.lastActivity = Date.now();
+    await this.saveSession(session);
+    await this.setStatus(session, 'waiting_on_visitor');
+    
+    return true;
+  }
+  
+  /**
+   * Find the session attached to a Discord thread
+   */
+  private async findSessionByThread(threadId: string): Promise<SessionState | undefined> {
+    const stored = await this.state.storage.list<SessionState>({ prefix: 'session:' });
+    const found = [...stored.values()].find(session => session.threadId === threadId);
+    return found ? this.loadSession(found.sessionId) : undefined;
+  }
+  
+  /**
+   * Load session state, sharing one copy between all sockets of the session
+   */
+  private async loadSession(sessionId: string): Promise<SessionState | undefined> {
+    const cached = this.sessionCache.get(sessionId);
+    if (cached) {
+      return cached;
+    }
+    
+    const session = await this.state.storage.get<SessionState>(`session:${sessionId}`);
+    if (session) {
+      this.sessionCache.set(sessionId, session);
+    }
+    return session;
+  }
+  
+  /**
+   * Persist session state
+   */
+  private async saveSession(session: SessionState): Promise<void> {
+    this.sessionCache.set(session.sessionId, session);
+    await this.state.storage.put(`session:${session.sessionId}`, session);
+  }
+  
+  /**
+   * Update the status tag of the session's forum post when it changes
+   */
+  private async setStatus(session: SessionState, status: ThreadStatus): Promise<void> {
+    if (session.status === status) {
+      return;
+    }
+    
+    try {
+      await this.getDiscord(session).setThreadStatus(session.threadId, status);
+      session.status = status;
+      await this.saveSession(session);
+    } catch (error) {
+      // Tags are only a convenience for the agents - the chat goes on
+      console.error('Error updating thread status:', error);
+    }
+  }
+  
+  /**
+   * Get the Discord client for a session's site and department
+   * Shared by all sessions in the same channel
+   */
+  private getDiscord(session: Pick<SessionState, 'siteKey' | 'department'>): DiscordClient {
+    const siteKey = session.siteKey || DEFAULT_SITE_KEY;
+    const key = session.department ? `${siteKey}:${session.department}` : siteKey;
+    
+    let discord = this.discordClients.get(key);
+    if (!discord) {
+      const site = getSite(this.env, siteKey);
+      discord = new DiscordClient(this.env, site, getDepartment(site, session.department));
+      this.discordClients.set(key, discord);
+    }
+    return discord;
+  }
+  
+  /**
+   * Get the session of an initialized socket
+   */
+  private async getSocketSession(ws: WebSocket): Promise<SessionState | undefined> {
+    const attachment = this.getAttachment(ws);
+    if (!attachment?.initialized) {
+      return undefined;
+    }
+    return this.loadSession(attachment.sessionId);
+  }
+  
+  /**
+   * Read the state serialized on a socket (survives hibernation)
+   */
+  private getAttachment(ws: WebSocket): SocketAttachment {
+    return ws.deserializeAttachment() as SocketAttachment;
+  }
+  
+  /**
+   * Store state on a socket (survives hibernation)
+   */
+  private setAttachment(ws: WebSocket, attachment: SocketAttachment): void {
+    ws.serializeAttachment(attachment);
+  }
+  
+  /**
+   * Get all initialized sockets connected to a session
+   */
+  private getSockets(sessionId: string): WebSocket[] {
+    return this.state.getWebSockets().filter(ws => {
+      const attachment = this.getAttachment(ws);
+      return attachment?.initialized && attachment.sessionId === sessionId;
+    });
+  }
+  
+  /**
+   * Alarm handler - expires sessions that have been idle for too long
+   */
+  async alarm(): Promise<void> {
+    const stored = await this.state.storage.list<SessionState>({ prefix: 'session:' });
+    
+    for (const session of stored.values()) {
+      const timeout = this.getSessionTimeout(session);
+      
+      // Closed chats are finished once the rating window is over
+      if (session.closedAt) {
+        if (Date.now() - session.closedAt < RATING_WINDOW) {
+          await this.scheduleExpiry(session);
+        } else {
+          await this.finishChat(session);
+        }
+        continue;
+      }
+      
+      // Visitor is still connected - check again after another timeout,
+      // or when business hours open or close
+      if (this.getSockets(session.sessionId).length > 0) {
+        const availability = await this.refreshAvailability(session);
+        await this.state.storage.setAlarm(Math.min(Date.now() + timeout, availability?.changesAt ?? Infinity));
+        continue;
+      }
+      
+      // Activity since the alarm was scheduled - push expiry back
+      if (Date.now() - session.lastActivity < timeout) {
+        await this.scheduleExpiry(session);
+        continue;
+      }
+      
+      await this.expireSession(session);
+    }
+  }
+  
+  /**
+   * Remove an idle session and let the agents know the visitor left
+   */
+  private async expireSession(session: SessionState): Promise<void> {
+    await this.setStatus(session, 'closed');
+    await this.endSession(session);
+    
+    try {
+      const minutes = Math.round(this.getSessionTimeout(session) / 60000);
+      await this.getDiscord(session).sendMessage(
+        session.threadId,
+        session.offline
+          ? `📭 **Offline message expired** - the visitor didn't come back within ${Math.round(minutes / 1440)} days.`
+          : `👋 **Visitor left** - session expired after ${minutes} minutes of inactivity.`
+      );
+      
+      if (this.env.ARCHIVE_ON_EXPIRY === 'true') {
+        await this.getDiscord(session).archiveThread(session.threadId);
+      }
+    } catch (error) {
+      console.error('Error notifying Discord of session expiry:', error);
+    }
+  }
+  
+  /**
+   * Delete a session and everything it left behind
+   */
+  private async endSession(session: SessionState): Promise<void> {
+    // Keep a copy of the chat in the thread for the agents
+    const transcriptFormat = this.env.TRANSCRIPT_ON_END || '';
+    if (isTranscriptFormat(transcriptFormat)) {
+      try {
+        await this.getDiscord(session).sendFile(
+          session.threadId,
+          '📄 **Chat transcript**',
+          renderTranscript(session, getAllMessages(this.sql, session.sessionId), transcriptFormat, true)
+        );
+      } catch (error) {
+        console.error('Error posting transcript:', error);
+      }
+    }
+    
+    await this.state.storage.delete(`session:${session.sessionId}`);
+    deleteSessionMessages(this.sql, session.sessionId);
+    this.sessionCache.delete(session.sessionId);
+    
+    try {
+      await deleteSessionUploads(this.env, session.sessionId);
+    } catch (error) {
+      console.error('Error deleting session uploads:', error);
+    }
+    
+    try {
+      await this.callCoordinator('/unregister', session.threadId);
+    } catch (error) {
+      console.error('Error unregistering from coordinator:', error);
+    }
+  }
+  
+  /**
+   * Schedule the expiry alarm for a session
+   */
+  private async scheduleExpiry(session: SessionState): Promise<void> {
+    const expiresAt = session.closedAt
+      ? session.closedAt + RATING_WINDOW
+      : session.lastActivity + this.getSessionTimeout(session);
+    
+    // Wake up when business hours open or close to tell the visitor
+    const site = session.closedAt ? null : getSite(this.env, session.siteKey);
+    const hoursChangeAt = site
+      ? getAvailability(site, getDepartment(site, session.department), null).changesAt
+      : undefined;
+    
+    await this.state.storage.setAlarm(Math.min(expiresAt, hoursChangeAt ?? Infinity));
+  }
+  
+  /**
+   * Turn an offline message into a live chat once the visitor chats while agents are available
+   * Until then the session keeps the offline timeout
+   */
+  private endOfflineMode(session: SessionState): void {
+    if (session.offline && session.availability !== 'offline' && session.availability !== 'away') {
+      session.offline = undefined;
+    }
+  }
+  
+  /**
+   * Work out a site's availability with the agent presence last reported
+   * Agents count as online if the presence can't be loaded
+   */
+  private async checkAvailability(site: SiteConfig, department: DepartmentConfig | null): Promise<AvailabilityData> {
+    let presence: AgentPresence | null = null;
+    try {
+      presence = await loadAgentPresence(this.env);
+    } catch (error) {
+      console.error('Error loading agent presence:', error);
+    }
+    return getAvailability(site, department, presence);
+  }
+  
+  /**
+   * Tell the visitor when their chat's availability changes
+   * Uses the given presence, else the last reported one
+   */
+  private async refreshAvailability(
+    session: SessionState,
+    presence?: AgentPresence | null
+  ): Promise<AvailabilityData | null> {
+    const site = getSite(this.env, session.siteKey);
+    if (!site || session.closedAt) {
+      return null;
+    }
+    
+    const department = getDepartment(site, session.department);
+    const availability = presence === undefined
+      ? await this.checkAvailability(site, department)
+      : getAvailability(site, department, presence);
+    
+    if (session.availability !== availability.status) {
+      session.availability = availability.status;
+      await this.saveSession(session);
+      
+      for (const ws of this.getSockets(session.sessionId)) {
+        this.sendMessage(ws, {
+          type: 'availability',
+          data: availability,
+        });
+      }
+    }
+    
+    return availability;
+  }
+  
+  /**
+   * Send agent presence to every session with a registered thread (coordinator)
+   */
+  private async broadcastPresence(presence: AgentPresence): Promise<void> {
+    const mappings = await this.state.storage.list<string>({ prefix: 'thread:' });
+    const objectIds = new Set(mappings.values());
+    
+    const results = await Promise.allSettled([...objectIds].map(objectId => {
+      const stub = this.env.CHAT_SESSION.get(this.env.CHAT_SESSION.idFromString(objectId));
+      return stub.fetch(new Request('https://internal/availability', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(presence),
+      }));
+    }));
+    
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('Error sending presence to session:', result.reason);
+      }
+    }
+  }
+  
+  /**
+   * Get the session timeout in milliseconds (the site's, else the configured default)
+   */
+  private getSessionTimeout(session: SessionState): number {
+    // Offline messages wait days for the visitor to come back, not minutes
+    if (session.offline) {
+      const days = parseInt(this.env.OFFLINE_MESSAGE_DAYS || '', 10);
+      return (days > 0 ? days : DEFAULT_OFFLINE_MESSAGE_DAYS) * 24 * 60 * 60 * 1000;
+    }
+    
+    const siteMinutes = getSite(this.env, session.siteKey)?.sessionTimeoutMinutes;
+    const minutes = siteMinutes || parseInt(this.env.SESSION_TIMEOUT_MINUTES || '', 10);
+    return (minutes > 0 ? minutes : DEFAULT_SESSION_TIMEOUT_MINUTES) * 60 * 1000;
+  }
+  
+  /**
+   * Send this session's thread mapping to the coordinator
+   */
+  private async callCoordinator(path: string, threadId: string): Promise<void> {
+    const coordinatorId = this.env.CHAT_SESSION.idFromName('message-coordinator');
+    const coordinator = this.env.CHAT_SESSION.get(coordinatorId);
+    
+    // Get this DO's ID as a string
+    const myId = this.state.id.toString();
+    
+    await coordinator.fetch(new Request(`https://internal${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ threadId, doId: myId }),
+    }));
+  }
+  
+  /**
+   * Check rate limit for a socket
+   * The window is kept on the socket attachment so it survives hibernation
+   */
+  private checkRateLimit(ws: WebSocket): boolean {
+    const attachment = this.getAttachment(ws);
+    const rateLimit = this.countMessage(
+      attachment.rateLimit,
+      getSite(this.env, attachment.siteKey)?.messagesPerMinute || DEFAULT_MESSAGES_PER_MINUTE
+    );
+    if (!rateLimit) {
       return false;
     }
     
-    limit.count++;
+    this.setAttachment(ws, { ...attachment, rateLimit });
     return true;
   }
   
+  /**
+   * Check the rate limit of a visitor without a socket
+   * The window is kept by the coordinator, shared by all of the visitor's sessions
+   */
+  private async checkVisitorRateLimit(visitorKey: string, site: SiteConfig): Promise<boolean> {
+    const coordinatorId = this.env.CHAT_SESSION.idFromName('message-coordinator');
+    const coordinator = this.env.CHAT_SESSION.get(coordinatorId);
+    
+    const response = await coordinator.fetch(new Request('https://internal/rate-limit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        key: visitorKey,
+        limit: site.messagesPerMinute || DEFAULT_MESSAGES_PER_MINUTE,
+      }),
+    }));
+    
+    if (!response.ok) {
+      throw new Error(`Rate limit check failed: ${response.status}`);
+    }
+    
+    const result: { allowed: boolean } = await response.json();
+    return result.allowed;
+  }
+  
+  /**
+   * Count a message against a rate limit window
+   * Returns the updated window, or null once the limit is reached
+   */
+  private countMessage(limit: RateLimitState | undefined, maxMessages: number): RateLimitState | null {
+    const now = Date.now();
+    if (!limit || now > limit.windowStart + RATE_WINDOW) {
+      return { messageCount: 1, windowStart: now };
+    }
+    
+    if (limit.messageCount >= maxMessages) {
+      return null;
+    }
+    
+    return { ...limit, messageCount: limit.messageCount + 1 };
+  }
+  
   /**
    * Send message to client
    */
@@ -429,25 +2257,61 @@ export class ChatSession {
     }
   }
   
+  /**
+   * Acknowledge a client message
+   */
+  private sendAck(ws: WebSocket, clientId: string | undefined, status: AckStatus, id?: string): void {
+    if (!clientId) {
+      return;
+    }
+    
+    this.sendMessage(ws, {
+      type: 'ack',
+      data: { clientId, status, id },
+    });
+  }
+  
+  /**
+   * Report a failed client message (error for display, ack for retry)
+   */
+  private rejectMessage(ws: WebSocket, clientId: string | undefined, message: string): void {
+    this.sendError(ws, message);
+    this.sendAck(ws, clientId, 'failed');
+  }
+  
   /**
    * Send error message to client
    */
-  private sendError(ws: WebSocket, message: string): void {
+  private sendError(ws: WebSocket, message: string, code?: string): void {
     this.sendMessage(ws, {
       type: 'error',
-      data: { message },
+      data: { message, code },
+    });
+  }
+  
+  /**
+   * Tell a socket the chat is closed so the widget shows the rating view
+   */
+  private sendClosed(ws: WebSocket, session: SessionState): void {
+    this.sendMessage(ws, {
+      type: 'closed',
+      data: {
+        message: session.closedBy === 'agent' ? 'The agent has ended this chat.' : 'You ended the chat.',
+        closedBy: session.closedBy || 'visitor',
+      },
     });
   }
   
   /**
    * Handle WebSocket close
+   * The session stays in storage for potential reconnection until it expires
    */
-  private handleClose(ws: WebSocket): void {
-    const session = this.sessions.get(ws);
-    if (session) {
-      // Keep session in storage for potential reconnection
-      // It will be cleaned up after timeout
-      this.sessions.delete(ws);
+  private handleClose(ws: WebSocket, code: number, reason: string): void {
+    try {
+      // Complete the closing handshake (1005/1006 are reserved and can't be sent)
+      ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+    } catch (error) {
+      // Already closed
     }
   }
   
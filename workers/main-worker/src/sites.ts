@@ -0,0 +1,205 @@
+import { Env, SiteConfig, DepartmentConfig } from './types';
+import { parseBusinessHours } from './availability';
+
+// Site used by widgets without a siteKey, and by single-site deployments
+export const DEFAULT_SITE_KEY = 'default';
+
+// Parsed registries by SITES value, shared by all requests in this isolate
+const registryCache = new Map<string, Map<string, SiteConfig>>();
+
+/**
+ * Get the sites served by this deployment
+ * Without a SITES registry the single-site variables form the default site
+ */
+export function getSites(env: Env): Map<string, SiteConfig> {
+  const raw = env.SITES || '';
+  let sites = registryCache.get(raw);
+  if (!sites) {
+    sites = raw ? parseSites(raw) : new Map([[DEFAULT_SITE_KEY, getLegacySite(env)]]);
+    registryCache.set(raw, sites);
+  }
+  return sites;
+}
+
+/**
+ * Get a site by key
+ * Returns null for sites not in the registry
+ */
+export function getSite(env: Env, siteKey?: string | null): SiteConfig | null {
+  return getSites(env).get(siteKey || DEFAULT_SITE_KEY) || null;
+}
+
+/**
+ * Get a department of a site
+ * Returns null for departments the site doesn't have
+ */
+export function getDepartment(site: SiteConfig | null, departmentKey?: string | null): DepartmentConfig | null {
+  if (!site?.departments || !departmentKey) {
+    return null;
+  }
+  return Object.prototype.hasOwnProperty.call(site.departments, departmentKey)
+    ? site.departments[departmentKey]
+    : null;
+}
+
+/**
+ * Check if an origin may embed a site's widget
+ */
+export function isOriginAllowedForSite(origin: string | null, site: SiteConfig): boolean {
+  if (!origin) return false;
+  
+  // Allow if origin is in the list or if wildcard is set
+  return site.allowedOrigins.includes(origin) || site.allowedOrigins.includes('*');
+}
+
+/**
+ * Parse the SITES registry (JSON object of site key -> site settings)
+ * Sites missing required settings are skipped
+ */
+function parseSites(raw: string): Map<string, SiteConfig> {
+  const sites = new Map<string, SiteConfig>();
+  
+  let registry: unknown;
+  try {
+    registry = JSON.parse(raw);
+  } catch (error) {
+    console.error('Invalid SITES registry:', error);
+    return sites;
+  }
+  
+  if (!isRecord(registry)) {
+    console.error('SITES must be a JSON object of site key -> site settings');
+    return sites;
+  }
+  
+  for (const [key, value] of Object.entries(registry)) {
+    const supportChannelId = isRecord(value) ? optionalId(value.supportChannelId) : undefined;
+    const turnstileSecretKey = isRecord(value) ? optionalString(value.turnstileSecretKey) : undefined;
+    if (!isRecord(value) || !supportChannelId || !turnstileSecretKey) {
+      console.error(`Site ${key} needs supportChannelId and turnstileSecretKey`);
+      continue;
+    }
+    
+    sites.set(key, {
+      key,
+      name: optionalString(value.name) || key,
+      allowedOrigins: parseOrigins(value.allowedOrigins),
+      supportChannelId,
+      turnstileSecretKey,
+      identitySecret: optionalString(value.identitySecret),
+      greeting: optionalString(value.greeting),
+      sessionTimeoutMinutes: optionalNumber(value.sessionTimeoutMinutes),
+      messagesPerMinute: optionalNumber(value.messagesPerMinute),
+      supportRoleId: optionalId(value.supportRoleId),
+      businessHours: parseBusinessHours(value.businessHours),
+      responseTimes: parseResponseTimes(value.responseTimes),
+      departments: parseDepartments(value.departments),
+    });
+  }
+  
+  return sites;
+}
+
+/**
+ * Build the default site from the single-site variables
+ */
+function getLegacySite(env: Env): SiteConfig {
+  return {
+    key: DEFAULT_SITE_KEY,
+    name: '', // Single-site deployments don't label threads
+    allowedOrigins: parseOrigins(env.ALLOWED_ORIGINS),
+    supportChannelId: env.DISCORD_SUPPORT_CHANNEL_ID,
+    turnstileSecretKey: env.TURNSTILE_SECRET_KEY,
+    supportRoleId: env.SUPPORT_ROLE_ID || undefined,
+    businessHours: parseBusinessHours(env.BUSINESS_HOURS),
+    departments: parseDepartments(env.DEPARTMENTS),
+  };
+}
+
+/**
+ * Parse departments (object of department key -> { name, channelId, roleId?, businessHours? })
+ * Accepts the object or its JSON, departments without a channel are skipped
+ */
+function parseDepartments(departments: unknown): Record<string, DepartmentConfig> | undefined {
+  let registry: unknown = departments;
+  if (typeof departments === 'string') {
+    try {
+      registry = JSON.parse(departments);
+    } catch (error) {
+      console.error('Invalid DEPARTMENTS:', error);
+      return undefined;
+    }
+  }
+  
+  if (!isRecord(registry)) {
+    return undefined;
+  }
+  
+  const parsed: Record<string, DepartmentConfig> = {};
+  for (const [key, value] of Object.entries(registry)) {
+    const channelId = isRecord(value) ? optionalId(value.channelId) : undefined;
+    if (!isRecord(value) || !channelId) {
+      console.error(`Department ${key} needs a channelId`);
+      continue;
+    }
+    
+    parsed[key] = {
+      key,
+      name: optionalString(value.name) || key,
+      channelId,
+      roleId: optionalId(value.roleId),
+      businessHours: parseBusinessHours(value.businessHours),
+    };
+  }
+  
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
+/**
+ * Parse expected reply times ({ online?: string, away?: string })
+ */
+function parseResponseTimes(value: unknown): SiteConfig['responseTimes'] {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  return {
+    online: optionalString(value.online),
+    away: optionalString(value.away),
+  };
+}
+
+/**
+ * Check that a parsed JSON value is an object (not null or an array)
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Keep a setting only if it is a non-empty string
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Keep a setting only if it is a finite number
+ */
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Accept Discord IDs as strings or numbers (unquoted IDs in hand-written JSON)
+ */
+function optionalId(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) || undefined : undefined;
+}
+
+/**
+ * Accept origins as an array or a comma-separated list
+ */
+function parseOrigins(origins: unknown): string[] {
+  const list = Array.isArray(origins) ? origins : String(origins || '').split(',');
+  return list.map(origin => String(origin).trim()).filter(Boolean);
+}
@@ -0,0 +1,76 @@
+import { Env, ThreadIndexEntry } from './types';
+
+/**
+ * Normalize an email for thread lookups (case and surrounding whitespace don't matter)
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Index of visitor emails to their Discord threads, per site and department
+ * Kept in the coordinator object so every session sees the same entries
+ */
+export class ThreadIndex {
+  private env: Env;
+  private scope: string;
+  
+  constructor(env: Env, scope: string) {
+    this.env = env;
+    this.scope = scope;
+  }
+  
+  /**
+   * Look up the thread of a visitor
+   */
+  async lookup(email: string): Promise<ThreadIndexEntry | null> {
+    const response = await this.callCoordinator('/thread-index/lookup', {
+      key: this.getKey(email),
+    });
+    
+    if (response.status === 404) {
+      return null;
+    }
+    
+    if (!response.ok) {
+      throw new Error(`Thread index lookup failed: ${response.status}`);
+    }
+    
+    return await response.json() as ThreadIndexEntry;
+  }
+  
+  /**
+   * Record the thread a visitor is chatting in
+   */
+  async remember(email: string, threadId: string): Promise<void> {
+    const response = await this.callCoordinator('/thread-index/store', {
+      key: this.getKey(email),
+      threadId,
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Thread index update failed: ${response.status}`);
+    }
+  }
+  
+  /**
+   * Build the index key (the same email on two sites or departments has two threads)
+   */
+  private getKey(email: string): string {
+    return `${this.scope}:${normalizeEmail(email)}`;
+  }
+  
+  /**
+   * Send a request to the coordinator
+   */
+  private async callCoordinator(path: string, body: unknown): Promise<Response> {
+    const coordinatorId = this.env.CHAT_SESSION.idFromName('message-coordinator');
+    const coordinator = this.env.CHAT_SESSION.get(coordinatorId);
+    
+    return coordinator.fetch(new Request(`https://internal${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }));
+  }
+}
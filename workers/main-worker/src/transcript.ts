@@ -0,0 +1,187 @@
+import { SessionState, StoredMessage, Transcript, TranscriptFormat } from './types';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['txt', 'json', 'html'];
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  json: 'application/json',
+  html: 'text/html; charset=utf-8',
+};
+
+/**
+ * Render a session's messages as a downloadable transcript
+ * Pass every message, including replies the visitor hasn't seen yet
+ * Internal notes are only included for agents
+ */
+export function renderTranscript(
+  session: SessionState,
+  messages: StoredMessage[],
+  format: TranscriptFormat,
+  includeNotes: boolean = false
+): Transcript {
+  let content: string;
+  switch (format) {
+    case 'json':
+      content = formatJsonTranscript(session, messages, includeNotes);
+      break;
+    case 'html':
+      content = formatHtmlTranscript(session, messages, includeNotes);
+      break;
+    default:
+      content = formatTextTranscript(session, messages, includeNotes);
+  }
+  
+  return {
+    filename: `transcript-${session.sessionId}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    content,
+  };
+}
+
+/**
+ * Check a requested transcript format
+ */
+export function isTranscriptFormat(format: string | null): format is TranscriptFormat {
+  return TRANSCRIPT_FORMATS.includes(format as TranscriptFormat);
+}
+
+/**
+ * Render a session's messages as a plain text transcript
+ */
+export function formatTextTranscript(
+  session: SessionState,
+  messages: StoredMessage[],
+  includeNotes: boolean = false
+): string {
+  const lines = [
+    `Chat with ${session.name} <${session.email}>`,
+    `Started: ${new Date(session.createdAt).toISOString()}`,
+    '',
+  ];
+  
+  for (const message of messages) {
+    lines.push(`[${new Date(message.timestamp).toISOString()}] ${message.author}: ${message.message}`);
+    for (const attachment of message.attachments || []) {
+      lines.push(`    Attachment: ${attachment.filename} (${attachment.url})`);
+    }
+  }
+  
+  if (includeNotes && session.notes?.length) {
+    lines.push('', 'Internal notes:');
+    for (const note of session.notes) {
+      lines.push(`[${new Date(note.timestamp).toISOString()}] ${note.author}: ${note.text}`);
+    }
+  }
+  
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a session's messages as JSON (for archiving)
+ */
+export function formatJsonTranscript(
+  session: SessionState,
+  messages: StoredMessage[],
+  includeNotes: boolean = false
+): string {
+  const transcript = {
+    sessionId: session.sessionId,
+    name: session.name,
+    email: session.email,
+    userId: session.userId,
+    page: session.page,
+    startedAt: new Date(session.createdAt).toISOString(),
+    closedAt: session.closedAt ? new Date(session.closedAt).toISOString() : undefined,
+    rating: session.rating,
+    messages: messages.map(message => ({
+      id: message.id,
+      direction: message.direction,
+      author: message.author,
+      message: message.message,
+      timestamp: new Date(message.timestamp).toISOString(),
+      edited: message.edited,
+      attachments: message.attachments,
+      embeds: message.embeds,
+    })),
+    notes: includeNotes ? session.notes || [] : undefined,
+  };
+  
+  return JSON.stringify(transcript, null, 2);
+}
+
+/**
+ * Render a session's messages as a self-contained HTML page
+ */
+export function formatHtmlTranscript(
+  session: SessionState,
+  messages: StoredMessage[],
+  includeNotes: boolean = false
+): string {
+  const rendered = messages.map(message => {
+    const attachments = (message.attachments || [])
+      .filter(attachment => isSafeUrl(attachment.url))
+      .map(attachment =>
+        `<div class="attachment"><a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.filename)}</a></div>`
+      )
+      .join('');
+    
+    return `<div class="message ${message.direction === 'visitor' ? 'visitor' : 'agent'}">` +
+      `<div class="meta"><strong>${escapeHtml(message.author)}</strong> ` +
+      `<time>${new Date(message.timestamp).toISOString()}</time></div>` +
+      `<div class="text">${escapeHtml(message.message)}</div>${attachments}</div>`;
+  });
+  
+  const notes = includeNotes && session.notes?.length
+    ? `<h2>Internal notes</h2>` + session.notes.map(note =>
+      `<div class="message note"><div class="meta"><strong>${escapeHtml(note.author)}</strong> ` +
+      `<time>${new Date(note.timestamp).toISOString()}</time></div>` +
+      `<div class="text">${escapeHtml(note.text)}</div></div>`
+    ).join('')
+    : '';
+  
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Chat transcript - ${escapeHtml(session.name)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 720px; margin: 32px auto; padding: 0 16px; color: #1f2937; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+h2 { font-size: 16px; margin-top: 32px; }
+.info { color: #6b7280; font-size: 14px; margin-bottom: 24px; }
+.message { padding: 10px 14px; border-radius: 12px; margin-bottom: 12px; background: #f3f4f6; }
+.message.visitor { background: #e0e7ff; }
+.message.note { background: #fef3c7; }
+.meta { font-size: 12px; color: #6b7280; margin-bottom: 4px; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+.attachment { margin-top: 6px; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>Chat with ${escapeHtml(session.name)}</h1>
+<div class="info">${escapeHtml(session.email)} &middot; started ${new Date(session.createdAt).toISOString()}</div>
+${rendered.join('\n')}
+${notes}
+</body>
+</html>
+`;
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Only link http(s) URLs
+ */
+function isSafeUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
@@ -1,11 +1,11 @@
-import { Env, TurnstileResponse } from './types';
+import { TurnstileResponse } from './types';
 
 /**
  * Validate Cloudflare Turnstile token
  */
 export async function validateTurnstile(
   token: string,
-  env: Env,
+  secretKey: string,
   ip?: string
 ): Promise<boolean> {
   if (!token) {
@@ -14,7 +14,7 @@ export async function validateTurnstile(
   
   try {
     const formData = new FormData();
-    formData.append('secret', env.TURNSTILE_SECRET_KEY);
+    formData.append('secret', secretKey);
     formData.append('response', token);
     
     if (ip) {
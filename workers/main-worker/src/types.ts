@@ -1,6 +1,30 @@
 // WebSocket message types
-export type ClientMessageType = 'init' | 'message' | 'ping';
-export type ServerMessageType = 'ready' | 'message' | 'error' | 'pong' | 'typing';
+export type ClientMessageType =
+  | 'init'
+  | 'message'
+  | 'edit'
+  | 'delete'
+  | 'file'
+  | 'typing'
+  | 'read'
+  | 'close'
+  | 'rate'
+  | 'history'
+  | 'ping';
+export type ServerMessageType =
+  | 'ready'
+  | 'message'
+  | 'message_edited'
+  | 'message_deleted'
+  | 'ack'
+  | 'error'
+  | 'pong'
+  | 'typing'
+  | 'closed'
+  | 'history'
+  | 'availability'
+  | 'agent_joined'
+  | 'rated';
 
 export interface ClientMessage {
   type: ClientMessageType;
@@ -11,12 +35,64 @@ export interface InitData {
   name: string;
   email: string;
   page: string;
-  turnstileToken: string;
-  sessionId?: string; // For reconnection
+  turnstileToken?: string; // Not required when restoring a session or with an identity
+  sessionId?: string; // For reconnection, must match the routed session
+  identity?: SignedIdentity; // Replaces name, email and CAPTCHA for signed-in visitors
+  department?: string; // Department key, chats go to the site's channel without one
+}
+
+// Message left through the offline form while no agent is available
+export interface OfflineMessageData {
+  name?: string;
+  email?: string;
+  message: string;
+  page?: string;
+  turnstileToken?: string; // Not required with an identity
+  identity?: SignedIdentity;
+  department?: string;
+}
+
+// Identity of a visitor signed in on the host site, signed with IDENTITY_SECRET
+export interface SignedIdentity {
+  payload: string; // JSON: { userId, name, email, attributes?, issuedAt (Unix seconds) }
+  signature: string; // Hex HMAC-SHA256 of the payload
+}
+
+export interface VerifiedIdentity {
+  userId: string;
+  name: string;
+  email: string;
+  attributes?: Record<string, string>;
 }
 
 export interface MessageData {
   message: string;
+  clientId?: string; // Client-generated ID, echoed back in the ack
+}
+
+export type RatingScale = 'stars' | 'thumbs';
+
+export interface RateData {
+  score: number; // 1-5 for stars, 0 (down) or 1 (up) for thumbs
+  scale: RatingScale;
+  comment?: string;
+}
+
+export interface HistoryRequestData {
+  before?: number; // Cursor from the previous history page
+}
+
+export interface FileMessageData {
+  uploadId: string;
+  clientId?: string;
+}
+
+// Upload stored temporarily before it is posted to Discord
+export interface UploadInfo {
+  uploadId: string;
+  filename: string;
+  contentType: string;
+  size: number;
 }
 
 export interface ServerMessage {
@@ -27,12 +103,65 @@ export interface ServerMessage {
 export interface ReadyData {
   message: string;
   sessionId: string;
+  restored: boolean;
+  unread?: number; // Agent replies queued while the visitor was away
+  availability?: AvailabilityData;
+  offline?: boolean; // The session is a message left while offline, kept for days
+  sessionTimeout: number; // Milliseconds of inactivity before the session expires
+}
+
+export type AvailabilityStatus = 'online' | 'away' | 'offline';
+
+// Whether agents can answer now, sent before the chat opens and when it changes
+export interface AvailabilityData {
+  status: AvailabilityStatus; // offline outside business hours, away with no agent online
+  open: boolean; // Within business hours
+  agentsOnline?: number; // Only when agent presence is tracked
+  responseTime?: string; // Expected reply time, e.g. "a few minutes"
+  nextOpenAt?: number; // Next opening while closed
+  changesAt?: number; // Next opening or closing
+}
+
+// Agent who owns the chat, shown in the widget header
+export interface AgentJoinedData {
+  name: string;
+  avatarUrl?: string;
+  handedOver?: boolean; // Taken over from another agent
+  restored?: boolean; // Sent again when the visitor reconnects
 }
 
 export interface IncomingMessageData {
+  id?: string; // Discord message ID
   message: string;
   author: string;
   timestamp: number;
+  attachments?: MessageAttachment[];
+  embeds?: MessageEmbed[];
+}
+
+export interface MessageEditedData {
+  id: string;
+  message: string;
+  attachments?: MessageAttachment[];
+  embeds?: MessageEmbed[];
+  fromVisitor?: boolean;
+}
+
+export interface MessageDeletedData {
+  id: string;
+  fromVisitor?: boolean;
+}
+
+export type AckStatus = 'delivered' | 'failed';
+
+export interface AckData {
+  clientId: string;
+  status: AckStatus;
+  id?: string; // Discord message ID once delivered
+}
+
+export interface TypingData {
+  author: string;
 }
 
 export interface ErrorData {
@@ -40,7 +169,22 @@ export interface ErrorData {
   code?: string;
 }
 
-// Session state
+export interface HistoryData {
+  messages: StoredMessage[]; // Oldest first
+  cursor?: number; // Pass as `before` to load older messages, absent on the first page
+}
+
+export type ClosedBy = 'visitor' | 'agent';
+
+// Chat state shown as a tag on forum posts
+export type ThreadStatus = 'new' | 'waiting_on_agent' | 'waiting_on_visitor' | 'closed';
+
+export interface ClosedData {
+  message: string;
+  closedBy: ClosedBy;
+}
+
+// Session state (messages are kept in the object's SQLite storage, see history.ts)
 export interface SessionState {
   sessionId: string;
   email: string;
@@ -49,13 +193,81 @@ export interface SessionState {
   createdAt: number;
   lastActivity: number;
   messageCount: number;
-  messageHistory: StoredMessage[];
+  page?: string; // Page the visitor started the chat from
+  siteKey?: string; // Site the chat was started on, see sites.ts
+  department?: string; // Department key within the site
+  userId?: string; // Host application user ID, set only for verified identities
+  attributes?: Record<string, string>; // Custom attributes from the verified identity
+  notes?: AgentNote[]; // Internal notes, never shown to the visitor
+  lastVisitorMessageId?: string; // Discord ID of the visitor's last editable message
+  lastReadMessageId?: string; // Discord ID of the last agent reply marked as read
+  closedAt?: number; // Set once the chat is closed and waiting for a rating
+  closedBy?: ClosedBy;
+  rating?: SessionRating;
+  status?: ThreadStatus; // Last status tagged on the forum post
+  availability?: AvailabilityStatus; // Last availability sent to the visitor
+  offline?: boolean; // Started as an offline message, until the visitor chats while agents are available
+  agent?: AgentProfile; // Agent who claimed the chat or was assigned it
+  lastAgentId?: string; // Discord ID of the agent who replied last
+}
+
+// Discord user answering chats
+export interface AgentProfile {
+  id: string;
+  name: string; // Server nickname, display name or username
+  avatarUrl?: string;
+}
+
+export type TranscriptFormat = 'txt' | 'json' | 'html';
+
+export interface Transcript {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface SessionRating {
+  score: number;
+  scale: RatingScale;
+  comment?: string;
+  timestamp: number;
+}
+
+export interface AgentNote {
+  author: string;
+  text: string;
+  timestamp: number;
 }
 
 export interface StoredMessage {
+  id?: string; // Discord message ID
+  clientId?: string; // Client-generated ID for visitor messages
+  direction?: 'visitor' | 'agent';
   author: string;
   message: string;
   timestamp: number;
+  attachments?: MessageAttachment[];
+  embeds?: MessageEmbed[];
+  edited?: boolean;
+}
+
+// File attached to a message
+export interface MessageAttachment {
+  url: string;
+  filename: string;
+  contentType?: string;
+  size: number;
+  width?: number;
+  height?: number;
+}
+
+// Simplified Discord embed
+export interface MessageEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
 }
 
 // Discord types
@@ -66,6 +278,17 @@ export interface DiscordThread {
   owner_id?: string;
   archived?: boolean;
   auto_archive_duration?: number;
+  applied_tags?: string[]; // Forum tag IDs (forum posts only)
+  thread_metadata?: {
+    archived: boolean;
+    archive_timestamp: string; // ISO8601, last archive or unarchive
+  };
+}
+
+// Thread a visitor last chatted in, kept by the coordinator
+export interface ThreadIndexEntry {
+  threadId: string;
+  lastUsedAt: number;
 }
 
 export interface DiscordMessage {
@@ -78,6 +301,42 @@ export interface DiscordMessage {
   };
   timestamp: string;
   channel_id: string;
+  attachments?: DiscordAttachment[];
+}
+
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  size: number;
+  url: string;
+  content_type?: string;
+  width?: number | null;
+  height?: number | null;
+}
+
+export interface DiscordChannel {
+  id: string;
+  type: number;
+  available_tags?: DiscordForumTag[]; // Forum channels only
+}
+
+export interface DiscordForumTag {
+  id: string;
+  name: string;
+}
+
+export interface DiscordWebhook {
+  id: string;
+  type: number;
+  name: string | null;
+  channel_id: string;
+  token?: string;
+}
+
+// Visitor shown as the author of webhook messages
+export interface VisitorIdentity {
+  name: string;
+  email: string;
 }
 
 export interface DiscordThreadsResponse {
@@ -87,11 +346,96 @@ export interface DiscordThreadsResponse {
 }
 
 // Bot relay types
+export type RelayMessageType = 'message' | 'typing' | 'edit' | 'delete';
+
 export interface RelayMessage {
+  type?: RelayMessageType; // Defaults to 'message'
   threadId: string;
+  messageId?: string; // Discord message ID (message, edit and delete)
   message: string;
-  author: string;
+  author: string; // Display name of the agent
+  authorId?: string; // Discord user ID of the agent
+  authorAvatar?: string; // Avatar URL of the agent
   timestamp: number;
+  attachments?: MessageAttachment[];
+  embeds?: MessageEmbed[];
+}
+
+// Discord interactions (agent slash commands)
+export enum InteractionType {
+  PING = 1,
+  APPLICATION_COMMAND = 2,
+  MESSAGE_COMPONENT = 3, // Button clicks
+}
+
+export enum InteractionResponseType {
+  PONG = 1,
+  CHANNEL_MESSAGE_WITH_SOURCE = 4,
+}
+
+export interface DiscordInteraction {
+  id: string;
+  type: InteractionType;
+  guild_id?: string;
+  channel_id?: string;
+  data?: {
+    name?: string; // Slash commands
+    custom_id?: string; // Buttons
+    options?: { name: string; type: number; value: string | number | boolean }[];
+    resolved?: {
+      users?: Record<string, DiscordUser>;
+      members?: Record<string, DiscordMember>;
+    };
+  };
+  member?: DiscordMember & { user: DiscordUser };
+  user?: DiscordUser;
+}
+
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  avatar?: string | null;
+  bot?: boolean;
+}
+
+// Server profile of a user
+export interface DiscordMember {
+  nick?: string | null;
+  avatar?: string | null;
+  roles?: string[];
+  permissions?: string; // Permission bits in the channel (interaction member only)
+}
+
+export interface ApplicationCommand {
+  name: string;
+  description: string;
+  options?: {
+    type: number;
+    name: string;
+    description: string;
+    required?: boolean;
+    choices?: { name: string; value: string }[];
+  }[];
+  contexts?: number[];
+  default_member_permissions?: string | null; // Permission bits needed to see the command
+}
+
+// Slash command routed to the session that owns the thread
+export interface AgentCommand {
+  name: string;
+  threadId: string;
+  agent: AgentProfile; // Agent who ran the command or clicked the button
+  roles: string[]; // Role IDs of the agent
+  canManageThreads: boolean; // The agent has the permission commands need by default
+  options: Record<string, string>;
+  users: Record<string, AgentProfile>; // Users picked in options, by ID (bots are left out)
+}
+
+export interface AgentCommandResult {
+  content: string;
+  ephemeral?: boolean; // Only shown to the agent who ran the command
+  file?: Transcript;
 }
 
 // Turnstile verification
@@ -102,14 +446,74 @@ export interface TurnstileResponse {
   hostname?: string;
 }
 
+// Site served by this deployment, from the SITES registry
+export interface SiteConfig {
+  key: string;
+  name: string; // Label on threads and messages in Discord
+  allowedOrigins: string[];
+  supportChannelId: string;
+  turnstileSecretKey: string;
+  identitySecret?: string; // Overrides IDENTITY_SECRET for this site
+  greeting?: string; // Shown to visitors when a chat starts
+  sessionTimeoutMinutes?: number; // Overrides SESSION_TIMEOUT_MINUTES
+  messagesPerMinute?: number;
+  supportRoleId?: string; // Role whose members' presence decides availability
+  businessHours?: BusinessHours; // Always open without
+  responseTimes?: Partial<Record<'online' | 'away', string>>; // Expected reply time shown by the widget
+  departments?: Record<string, DepartmentConfig>;
+}
+
+// Team with its own channel, chosen in the pre-chat form
+export interface DepartmentConfig {
+  key: string;
+  name: string;
+  channelId: string;
+  roleId?: string; // Mentioned on the opening message of new chats, and its presence tracked
+  businessHours?: BusinessHours; // Overrides the site's hours
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// Weekly opening hours, parsed from { timezone, days: { mon: ["09:00-17:00"] }, holidays }
+export interface BusinessHours {
+  timezone: string; // IANA time zone, e.g. "Europe/Berlin"
+  days: Partial<Record<Weekday, [number, number][]>>; // Open ranges in minutes after midnight
+  holidays: string[]; // Closed dates (YYYY-MM-DD) in the time zone
+}
+
+// Presence of support role members, reported by the bot relay
+export interface AgentPresence {
+  roles: Record<string, RolePresence>; // By role ID
+  updatedAt: number;
+}
+
+export interface RolePresence {
+  online: number;
+  away: number; // Idle or do not disturb
+}
+
 // Environment bindings
 export interface Env {
   CHAT_SESSION: DurableObjectNamespace;
+  UPLOADS: R2Bucket;
   DISCORD_BOT_TOKEN: string;
   DISCORD_SUPPORT_CHANNEL_ID: string;
+  DISCORD_APPLICATION_ID: string;
+  DISCORD_PUBLIC_KEY: string;
   TURNSTILE_SECRET_KEY: string;
   BOT_RELAY_SECRET: string;
   ALLOWED_ORIGINS: string;
+  SITES?: string; // JSON site registry, replaces the single-site channel, Turnstile and origin settings
+  DEPARTMENTS?: string; // JSON departments of the single site (sites in SITES list their own)
+  IDENTITY_SECRET?: string; // Shared with the host application to sign visitor identities
+  SUPPORT_ROLE_ID?: string; // Role of the single site's agents, for availability
+  BUSINESS_HOURS?: string; // JSON business hours of the single site
+  SESSION_TIMEOUT_MINUTES?: string;
+  ARCHIVE_ON_EXPIRY?: string;
+  THREAD_REUSE_DAYS?: string; // How long after its last chat a thread is reused (0 disables reuse)
+  THREAD_INDEX_FALLBACK?: string; // Search thread names for threads created before the index
+  TRANSCRIPT_ON_END?: string; // Transcript format posted to the thread when a chat ends
+  OFFLINE_MESSAGE_DAYS?: string; // How long offline messages wait for the visitor to come back
   ENVIRONMENT?: string;
 }
 
@@ -118,3 +522,12 @@ export interface RateLimitState {
   messageCount: number;
   windowStart: number;
 }
+
+// Per-socket state serialized on hibernatable WebSockets
+export interface SocketAttachment {
+  sessionId: string; // Session the socket was routed to
+  siteKey: string; // Site resolved by the main worker
+  initialized: boolean; // Set once init has created or restored the session
+  rateLimit?: RateLimitState;
+  lastTypingAt?: number;
+}
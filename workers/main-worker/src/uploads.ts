@@ -0,0 +1,111 @@
+import { Env, UploadInfo } from './types';
+
+// Upload limits
+export const MAX_UPLOAD_SIZE = 8 * 1024 * 1024; // 8 MB, within Discord's attachment limit
+export const ALLOWED_UPLOAD_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+];
+
+/**
+ * Validate an upload against the size and type limits
+ * Returns an error message, or null if the upload is allowed
+ */
+export function validateUpload(contentType: string, size: number): string | null {
+  if (!ALLOWED_UPLOAD_TYPES.includes(contentType)) {
+    return 'File type not allowed';
+  }
+  
+  if (size === 0) {
+    return 'File is empty';
+  }
+  
+  if (size > MAX_UPLOAD_SIZE) {
+    return `File too large (max ${MAX_UPLOAD_SIZE / (1024 * 1024)} MB)`;
+  }
+  
+  return null;
+}
+
+/**
+ * Store an upload temporarily until it is posted to Discord
+ */
+export async function storeUpload(
+  env: Env,
+  sessionId: string,
+  filename: string,
+  contentType: string,
+  data: ArrayBuffer
+): Promise<UploadInfo> {
+  const uploadId = crypto.randomUUID();
+  
+  await env.UPLOADS.put(`${sessionId}/${uploadId}`, data, {
+    httpMetadata: { contentType },
+    customMetadata: { filename },
+  });
+  
+  return {
+    uploadId,
+    filename,
+    contentType,
+    size: data.byteLength,
+  };
+}
+
+/**
+ * Fetch a stored upload belonging to a session
+ */
+export async function getUpload(
+  env: Env,
+  sessionId: string,
+  uploadId: string
+): Promise<{ info: UploadInfo; data: ArrayBuffer } | null> {
+  const object = await env.UPLOADS.get(`${sessionId}/${uploadId}`);
+  if (!object) {
+    return null;
+  }
+  
+  const data = await object.arrayBuffer();
+  
+  return {
+    info: {
+      uploadId,
+      filename: object.customMetadata?.filename || 'upload',
+      contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+      size: data.byteLength,
+    },
+    data,
+  };
+}
+
+/**
+ * Delete a stored upload
+ */
+export async function deleteUpload(env: Env, sessionId: string, uploadId: string): Promise<void> {
+  await env.UPLOADS.delete(`${sessionId}/${uploadId}`);
+}
+
+/**
+ * Delete all uploads a session left behind
+ */
+export async function deleteSessionUploads(env: Env, sessionId: string): Promise<void> {
+  const listed = await env.UPLOADS.list({ prefix: `${sessionId}/` });
+  const keys = listed.objects.map(object => object.key);
+  
+  if (keys.length > 0) {
+    await env.UPLOADS.delete(keys);
+  }
+}
+
+/**
+ * Strip path components and control characters from a client-supplied filename
+ */
+export function sanitizeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() || '';
+  const cleaned = base.replace(/[\x00-\x1f\x7f]/g, '').trim().slice(0, 100);
+  return cleaned || 'upload';
+}